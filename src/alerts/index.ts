@@ -0,0 +1,254 @@
+import debug from "debug";
+import {
+  HttpError,
+  NetworkError,
+  RequestTimeoutError,
+} from "../errors/index.js";
+import { findRegistryWorld } from "../registry/index.js";
+import { normalizeLookupName } from "../utils/fuzzy.js";
+import { globalFetchTransport, systemClock } from "../utils/index.js";
+import type { WorldStatusWatcher } from "../watcher/index.js";
+import type {
+  CharacterCreationAlert,
+  CharacterCreationAlertOptions,
+  CharacterCreationNotifier,
+  Clock,
+  HttpTransport,
+  WebhookNotifierOptions,
+  WorldFieldChange,
+} from "../types/index.js";
+
+export * from "./rules.js";
+
+const log = debug("lodestone-world-status:alerts");
+
+interface WorldAlertState {
+  readonly notifiers: Set<CharacterCreationNotifier>;
+  // Availability subscribers were last told about, or saw when subscribing
+  delivered: boolean | null;
+  // Cancels the debounce of a change waiting to be delivered
+  pending: AbortController | null;
+}
+
+/**
+ * Notifies subscribers when worlds open or close character creation
+ *
+ * Listens for `newCharacterCreation` changes on a watcher. With a debounce,
+ * a change is only delivered once it has lasted that long, so a world that
+ * opens and closes again in between sends nothing.
+ */
+export class CharacterCreationAlerts {
+  private readonly watcher: WorldStatusWatcher;
+  private readonly debounceMs: number;
+  private readonly clock: Clock;
+  private readonly worlds = new Map<string, WorldAlertState>();
+
+  private readonly onChange = (
+    change: WorldFieldChange<"newCharacterCreation">,
+  ) => {
+    const state = this.worlds.get(normalizeLookupName(change.world));
+    if (!state) {
+      return;
+    }
+
+    state.delivered ??= change.before;
+    state.pending?.abort();
+    state.pending = null;
+
+    if (this.debounceMs === 0) {
+      this.deliver(state, change);
+      return;
+    }
+
+    const pending = new AbortController();
+    state.pending = pending;
+    this.clock.sleep(this.debounceMs, pending.signal).then(
+      () => {
+        state.pending = null;
+        this.deliver(state, change);
+      },
+      // Superseded by a newer change, or closed
+      () => undefined,
+    );
+  };
+
+  /**
+   * @param watcher Watcher whose changes trigger alerts; start it separately
+   * @param options Debounce and clock used to wait it out
+   */
+  constructor(
+    watcher: WorldStatusWatcher,
+    options: CharacterCreationAlertOptions = {},
+  ) {
+    const debounceMs = options.debounceMs ?? 0;
+    if (debounceMs < 0 || !Number.isInteger(debounceMs)) {
+      throw new Error(
+        `Alert debounce must be a non-negative integer, got: ${debounceMs}`,
+      );
+    }
+
+    this.watcher = watcher;
+    this.debounceMs = debounceMs;
+    this.clock = options.clock ?? systemClock;
+    watcher.on("newCharacterCreation", this.onChange);
+  }
+
+  /**
+   * Notify a notifier whenever any of the given worlds opens or closes
+   * character creation
+   * @param worlds World names or aliases
+   * @param notifier Notifier to deliver alerts to
+   * @returns Function that cancels the subscription
+   */
+  subscribe(
+    worlds: string | readonly string[],
+    notifier: CharacterCreationNotifier,
+  ): () => void {
+    const keys = (typeof worlds === "string" ? [worlds] : worlds).map((world) =>
+      normalizeLookupName(findRegistryWorld(world)?.name ?? world),
+    );
+
+    for (const key of keys) {
+      const state = this.worlds.get(key) ?? {
+        notifiers: new Set(),
+        delivered: null,
+        pending: null,
+      };
+      state.notifiers.add(notifier);
+      this.worlds.set(key, state);
+    }
+    log("Subscribed to character creation on %s", keys.join(", "));
+
+    return () => {
+      for (const key of keys) {
+        const state = this.worlds.get(key);
+        state?.notifiers.delete(notifier);
+        if (state?.notifiers.size === 0) {
+          state.pending?.abort();
+          this.worlds.delete(key);
+        }
+      }
+    };
+  }
+
+  /**
+   * Stop listening to the watcher and drop every subscription, cancelling
+   * alerts that are waiting out their debounce
+   */
+  close(): void {
+    this.watcher.off("newCharacterCreation", this.onChange);
+    for (const state of this.worlds.values()) {
+      state.pending?.abort();
+    }
+    this.worlds.clear();
+  }
+
+  private deliver(
+    state: WorldAlertState,
+    change: WorldFieldChange<"newCharacterCreation">,
+  ): void {
+    // The world flapped back before the debounce ran out
+    if (change.after === state.delivered) {
+      log("Skipping alert for %s - back to where it was", change.world);
+      return;
+    }
+    state.delivered = change.after;
+
+    const alert: CharacterCreationAlert = {
+      world: change.world,
+      dataCenter: change.dataCenter,
+      region: change.region,
+      available: change.after,
+      current: change.current,
+      at: this.clock.now(),
+    };
+    log(
+      "Character creation %s on %s",
+      alert.available ? "opened" : "closed",
+      alert.world,
+    );
+
+    for (const notifier of state.notifiers) {
+      // A failing notifier never stops the others
+      Promise.resolve()
+        .then(() => notifier.notify(alert))
+        .catch((error: unknown) =>
+          log(
+            "Failed to deliver alert for %s: %s",
+            alert.world,
+            error instanceof Error ? error.message : "Unknown error",
+          ),
+        );
+    }
+  }
+}
+
+/**
+ * Notifier that calls a function with each alert
+ */
+export class CallbackNotifier<T = CharacterCreationAlert> {
+  private readonly callback: (alert: T) => void | Promise<void>;
+
+  /**
+   * @param callback Called with every alert; may return a promise
+   */
+  constructor(callback: (alert: T) => void | Promise<void>) {
+    this.callback = callback;
+  }
+
+  async notify(alert: T): Promise<void> {
+    await this.callback(alert);
+  }
+}
+
+/**
+ * Notifier that POSTs each alert as JSON to a URL
+ */
+export class WebhookNotifier<T = CharacterCreationAlert> {
+  private readonly url: string;
+  private readonly transport: HttpTransport;
+  private readonly headers: Readonly<Record<string, string>>;
+  private readonly timeoutMs: number;
+
+  /**
+   * @param url URL to POST alerts to
+   * @param options Transport, extra headers and request timeout
+   */
+  constructor(url: string, options: WebhookNotifierOptions = {}) {
+    const timeoutMs = options.timeoutMs ?? 10 * 1000;
+    if (timeoutMs <= 0 || !Number.isInteger(timeoutMs)) {
+      throw new Error(
+        `Webhook timeout must be a positive integer, got: ${timeoutMs}`,
+      );
+    }
+
+    this.url = url;
+    this.transport = options.transport ?? globalFetchTransport;
+    this.headers = options.headers ?? {};
+    this.timeoutMs = timeoutMs;
+  }
+
+  /**
+   * @throws NetworkError, RequestTimeoutError or HttpError if the webhook doesn't accept the alert
+   */
+  async notify(alert: T): Promise<void> {
+    const signal = AbortSignal.timeout(this.timeoutMs);
+    const response = await this.transport
+      .fetch(this.url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...this.headers },
+        body: JSON.stringify(alert),
+        signal,
+      })
+      .catch((error: unknown) => {
+        throw signal.aborted
+          ? new RequestTimeoutError(this.url, this.timeoutMs)
+          : new NetworkError(this.url, error);
+      });
+
+    if (!response.ok) {
+      throw new HttpError(this.url, response.status);
+    }
+    log("Posted alert to %s", this.url);
+  }
+}
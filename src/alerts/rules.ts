@@ -0,0 +1,426 @@
+import debug from "debug";
+import { EventEmitter } from "node:events";
+import { normalizeLookupName } from "../utils/fuzzy.js";
+import { systemClock } from "../utils/clock.js";
+import { isRecord } from "../utils/guards.js";
+import { findRegistryDataCenter } from "../registry/index.js";
+import type { WorldStatusWatcher } from "../watcher/index.js";
+import type {
+  AlertRule,
+  AlertRuleEngineEvents,
+  AlertRuleEngineOptions,
+  AlertRuleEvent,
+  Clock,
+  DataCenter,
+  PopulationLevel,
+  WorldStatusType,
+} from "../types/index.js";
+import {
+  POPULATION_LEVELS,
+  REGIONS,
+  WORLD_STATUS_TYPES,
+} from "../types/index.js";
+
+const log = debug("lodestone-world-status:rules");
+
+const RULE_TYPES: readonly AlertRule["type"][] = [
+  "world-status",
+  "population-share",
+  "datacenter-missing",
+];
+
+interface RuleState {
+  readonly rule: AlertRule;
+  // Set while the rule is firing
+  firedAt: number | null;
+  matches: readonly string[];
+  lastFiredAt: number | null;
+  // When each world was first seen with a matching status
+  readonly statusSince: Map<string, number>;
+}
+
+/**
+ * Evaluates declarative alert rules against world status snapshots and
+ * tracks when each rule fires and resolves
+ *
+ * A rule emits `fire` when it starts matching and `resolve` when it stops.
+ * A rule still in its cooldown doesn't fire, but fires on a later snapshot if
+ * it still matches once the cooldown is over.
+ */
+export class AlertRuleEngine extends EventEmitter<AlertRuleEngineEvents> {
+  private readonly states: RuleState[];
+  private readonly clock: Clock;
+  // Data centers seen in any snapshot, keyed by normalized name
+  private readonly seenDataCenters = new Map<string, DataCenter>();
+
+  /**
+   * @param rules Rules to evaluate, e.g. from parseAlertRules
+   * @param options Clock for evaluation times
+   */
+  constructor(
+    rules: readonly AlertRule[],
+    options: AlertRuleEngineOptions = {},
+  ) {
+    super();
+    this.states = validateAlertRules(rules).map((rule) => ({
+      rule,
+      firedAt: null,
+      matches: [],
+      lastFiredAt: null,
+      statusSince: new Map(),
+    }));
+    this.clock = options.clock ?? systemClock;
+  }
+
+  /**
+   * Evaluate every rule against a snapshot and emit the resulting events
+   * @param snapshot World status snapshot
+   * @param at When the snapshot was taken, in ms since the epoch (default: now)
+   * @returns The fire and resolve events, in rule order
+   */
+  evaluate(snapshot: readonly DataCenter[], at?: number): AlertRuleEvent[] {
+    const time = at ?? this.clock.now();
+    const events: AlertRuleEvent[] = [];
+
+    for (const state of this.states) {
+      const matches = this.match(state, snapshot, time);
+      const event = this.transition(state, matches, time);
+      if (event) {
+        events.push(event);
+      }
+    }
+
+    for (const dc of snapshot) {
+      this.seenDataCenters.set(normalizeLookupName(dc.name), dc);
+    }
+
+    for (const event of events) {
+      log(
+        "Rule %s %s: %s",
+        event.rule.id,
+        event.type === "fire" ? "fired" : "resolved",
+        event.matches.join(", "),
+      );
+      this.emit(event.type, event);
+    }
+    return events;
+  }
+
+  /**
+   * Evaluate the rules against every snapshot a watcher polls
+   * @param watcher Watcher to take snapshots from; start it separately
+   * @returns Function that stops evaluating the watcher's snapshots
+   */
+  attach(watcher: WorldStatusWatcher): () => void {
+    const onSnapshot = (snapshot: readonly DataCenter[]) => {
+      this.evaluate(snapshot);
+    };
+    watcher.on("snapshot", onSnapshot);
+    return () => {
+      watcher.off("snapshot", onSnapshot);
+    };
+  }
+
+  /**
+   * Get the rules that are currently firing
+   * @returns Rule ids, in rule order
+   */
+  getFiring(): string[] {
+    return this.states
+      .filter((state) => state.firedAt !== null)
+      .map((state) => state.rule.id);
+  }
+
+  /**
+   * Names of the worlds or data centers the rule matches, empty when it
+   * doesn't match
+   */
+  private match(
+    state: RuleState,
+    snapshot: readonly DataCenter[],
+    time: number,
+  ): string[] {
+    const { rule } = state;
+    const dataCenters = snapshot.filter((dc) => inScope(rule, dc));
+
+    switch (rule.type) {
+      case "world-status": {
+        const statuses = toList<WorldStatusType>(rule.status);
+        const forMs = rule.forMs ?? 0;
+        const matches: string[] = [];
+        const seen = new Set<string>();
+
+        for (const world of dataCenters.flatMap((dc) => dc.worlds)) {
+          if (!statuses.includes(world.status)) {
+            continue;
+          }
+          const since = state.statusSince.get(world.name) ?? time;
+          seen.add(world.name);
+          if (time - since >= forMs) {
+            matches.push(world.name);
+          }
+        }
+
+        // Worlds that left the status, or the snapshot, start over
+        for (const world of [...state.statusSince.keys()]) {
+          if (!seen.has(world)) {
+            state.statusSince.delete(world);
+          }
+        }
+        for (const world of seen) {
+          if (!state.statusSince.has(world)) {
+            state.statusSince.set(world, time);
+          }
+        }
+        return matches;
+      }
+
+      case "population-share": {
+        const levels = toList<PopulationLevel>(rule.population);
+        const worlds = dataCenters.flatMap((dc) => dc.worlds);
+        const matching = worlds.filter((world) =>
+          levels.includes(world.population),
+        );
+        return worlds.length > 0 && matching.length / worlds.length > rule.above
+          ? matching.map((world) => world.name)
+          : [];
+      }
+
+      case "datacenter-missing": {
+        const present = new Set(
+          snapshot.map((dc) => normalizeLookupName(dc.name)),
+        );
+        if (rule.dataCenter !== undefined) {
+          return present.has(normalizeLookupName(rule.dataCenter))
+            ? []
+            : [rule.dataCenter];
+        }
+        return [...this.seenDataCenters]
+          .filter(([key, dc]) => !present.has(key) && inScope(rule, dc))
+          .map(([, dc]) => dc.name);
+      }
+    }
+  }
+
+  /**
+   * Moves a rule between firing and not firing
+   * @returns The event to emit, if any
+   */
+  private transition(
+    state: RuleState,
+    matches: readonly string[],
+    time: number,
+  ): AlertRuleEvent | null {
+    if (matches.length > 0 && state.firedAt === null) {
+      const cooldownMs = state.rule.cooldownMs ?? 0;
+      if (state.lastFiredAt !== null && time - state.lastFiredAt < cooldownMs) {
+        log("Rule %s matches but is cooling down", state.rule.id);
+        return null;
+      }
+
+      state.firedAt = time;
+      state.lastFiredAt = time;
+      state.matches = matches;
+      return {
+        type: "fire",
+        rule: state.rule,
+        matches,
+        firedAt: time,
+        at: time,
+      };
+    }
+
+    if (matches.length === 0 && state.firedAt !== null) {
+      const event: AlertRuleEvent = {
+        type: "resolve",
+        rule: state.rule,
+        matches: state.matches,
+        firedAt: state.firedAt,
+        at: time,
+      };
+      state.firedAt = null;
+      state.matches = [];
+      return event;
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Reads alert rules from a JSON config: an array of rules, or an object with
+ * a `rules` array
+ * @param config JSON text, or the already parsed value
+ * @returns The rules, validated
+ * @throws Error if the config or any rule is malformed
+ */
+export function parseAlertRules(config: unknown): AlertRule[] {
+  const parsed: unknown =
+    typeof config === "string" ? JSON.parse(config) : config;
+  const rules = Array.isArray(parsed)
+    ? parsed
+    : isRecord(parsed) && Array.isArray(parsed.rules)
+      ? parsed.rules
+      : null;
+  if (!rules) {
+    throw new Error("Alert rule config must be an array or have a rules array");
+  }
+
+  return validateAlertRules(rules);
+}
+
+/**
+ * Checks that every rule is well-formed and has a unique id, and builds the
+ * typed rules from the checked fields
+ */
+function validateAlertRules(rules: readonly unknown[]): AlertRule[] {
+  const ids = new Set<string>();
+
+  return rules.map((rule, index): AlertRule => {
+    if (!isRecord(rule) || typeof rule.id !== "string" || !rule.id) {
+      throw new Error(`Alert rule ${index} must have an id`);
+    }
+    const name = `Alert rule "${rule.id}"`;
+    if (ids.has(rule.id)) {
+      throw new Error(`${name} is defined more than once`);
+    }
+    ids.add(rule.id);
+
+    const type = readOneOf(name, "type", rule.type, RULE_TYPES);
+    if (
+      rule.description !== undefined &&
+      typeof rule.description !== "string"
+    ) {
+      throw new Error(`${name} description must be a string`);
+    }
+    const region =
+      rule.region === undefined
+        ? undefined
+        : readOneOf(name, "region", rule.region, REGIONS);
+    if (
+      rule.dataCenter !== undefined &&
+      (typeof rule.dataCenter !== "string" || !rule.dataCenter.trim())
+    ) {
+      throw new Error(`${name} data center must be a non-empty string`);
+    }
+    const dataCenter = rule.dataCenter;
+
+    if (dataCenter !== undefined && region !== undefined) {
+      // A named data center is checked on its own, so a region next to it
+      // would be silently ignored
+      if (type === "datacenter-missing") {
+        throw new Error(`${name} can't have both a data center and a region`);
+      }
+      // Otherwise both must hold, which never happens for a known data
+      // center in another region
+      const known = findRegistryDataCenter(dataCenter);
+      if (known && known.region !== region) {
+        throw new Error(
+          `${name} data center ${known.name} is not in region ${region}`,
+        );
+      }
+    }
+
+    const base = {
+      id: rule.id,
+      description: rule.description,
+      region,
+      dataCenter,
+      cooldownMs: readDuration(name, "cooldown", rule.cooldownMs),
+    };
+
+    switch (type) {
+      case "world-status":
+        return {
+          ...base,
+          type,
+          status: readListOf(name, "status", rule.status, WORLD_STATUS_TYPES),
+          forMs: readDuration(name, "duration", rule.forMs),
+        };
+
+      case "population-share":
+        if (
+          typeof rule.above !== "number" ||
+          !(rule.above >= 0 && rule.above < 1)
+        ) {
+          throw new Error(
+            `${name} share must be at least 0 and below 1, got: ${String(rule.above)}`,
+          );
+        }
+        return {
+          ...base,
+          type,
+          population: readListOf(
+            name,
+            "population",
+            rule.population,
+            POPULATION_LEVELS,
+          ),
+          above: rule.above,
+        };
+
+      case "datacenter-missing":
+        return { ...base, type };
+    }
+  });
+}
+
+function readDuration(
+  name: string,
+  field: string,
+  value: unknown,
+): number | undefined {
+  if (
+    value !== undefined &&
+    (typeof value !== "number" || value < 0 || !Number.isInteger(value))
+  ) {
+    throw new Error(
+      `${name} ${field} must be a non-negative integer, got: ${String(value)}`,
+    );
+  }
+  return value;
+}
+
+function readOneOf<T extends string>(
+  name: string,
+  field: string,
+  value: unknown,
+  allowed: readonly T[],
+): T {
+  const match = allowed.find((item) => item === value);
+  if (match === undefined) {
+    throw new Error(
+      `${name} ${field} must be one of ${allowed.join(", ")}, got: ${String(value)}`,
+    );
+  }
+  return match;
+}
+
+function readListOf<T extends string>(
+  name: string,
+  field: string,
+  value: unknown,
+  allowed: readonly T[],
+): T | T[] {
+  if (!Array.isArray(value)) {
+    return readOneOf(name, field, value, allowed);
+  }
+  if (value.length === 0) {
+    throw new Error(
+      `${name} ${field} must be one of ${allowed.join(", ")}, got: []`,
+    );
+  }
+  return value.map((item: unknown) => readOneOf(name, field, item, allowed));
+}
+
+function inScope(rule: AlertRule, dc: DataCenter): boolean {
+  return (
+    (rule.region === undefined || dc.region === rule.region) &&
+    (rule.dataCenter === undefined ||
+      normalizeLookupName(dc.name) === normalizeLookupName(rule.dataCenter))
+  );
+}
+
+function toList<T>(value: T | readonly T[]): readonly T[] {
+  return Array.isArray(value) ? value : [value as T];
+}
@@ -0,0 +1,14 @@
+#!/usr/bin/env node
+import { runCli } from "./index.js";
+
+const controller = new AbortController();
+process.once("SIGINT", () => controller.abort());
+process.once("SIGTERM", () => controller.abort());
+
+runCli(process.argv.slice(2), {
+  stdout: process.stdout,
+  stderr: process.stderr,
+  signal: controller.signal,
+}).then((exitCode) => {
+  process.exitCode = exitCode;
+});
@@ -0,0 +1,346 @@
+import { parseArgs } from "node:util";
+import { LodestoneWorldStatus } from "../index.js";
+import { locateWorld } from "../travel/index.js";
+import type {
+  DataCenter,
+  NameSuggestion,
+  Region,
+  WorldStatus,
+  WorldStatusChange,
+} from "../types/index.js";
+import { LOOKUP_REGIONS } from "../types/index.js";
+
+/**
+ * Exit codes returned by the command-line interface
+ */
+export const EXIT_CODES = {
+  ok: 0,
+  error: 1,
+  maintenance: 2,
+  unknownStatus: 3,
+  notFound: 4,
+  usage: 64,
+} as const;
+
+/**
+ * Streams and dependencies used by the command-line interface
+ */
+export interface CliIo {
+  readonly stdout: { write(text: string): unknown };
+  readonly stderr: { write(text: string): unknown };
+  readonly client?: LodestoneWorldStatus;
+  readonly signal?: AbortSignal;
+}
+
+const USAGE = `Usage: lodestone-status <command> [options]
+
+Commands:
+  world <name>            Show a single world
+  dc <name>               Show every world in a data center
+  region <na|eu|jp|oc>    Show every world in a region
+  all                     Show every world
+  watch                   Print world status changes as they happen
+
+Options:
+  --json                  Print JSON instead of a table
+  --interval <ms>         Polling interval for watch
+  --timeout <ms>          Request timeout
+  -h, --help              Show this help
+
+Exit codes:
+  0   World online / command succeeded
+  1   Request failed
+  2   World in maintenance
+  3   World status unknown
+  4   World or data center not found
+  64  Invalid usage
+`;
+
+interface WorldRow {
+  readonly world: WorldStatus;
+  readonly dataCenter: string;
+  readonly region: Region;
+}
+
+/**
+ * Runs the command-line interface
+ * @param args Arguments after the executable name
+ * @param io Output streams, plus an optional client and stop signal
+ * @returns Promise resolving to the process exit code
+ */
+export async function runCli(
+  args: readonly string[],
+  io: CliIo,
+): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: [...args],
+      allowPositionals: true,
+      options: {
+        json: { type: "boolean", default: false },
+        interval: { type: "string" },
+        timeout: { type: "string" },
+        help: { type: "boolean", short: "h", default: false },
+      },
+    });
+  } catch (error) {
+    io.stderr.write(
+      `${error instanceof Error ? error.message : "Invalid arguments"}\n\n${USAGE}`,
+    );
+    return EXIT_CODES.usage;
+  }
+
+  const { values, positionals } = parsed;
+  const [command, ...rest] = positionals;
+  if (values.help || !command) {
+    (values.help ? io.stdout : io.stderr).write(USAGE);
+    return values.help ? EXIT_CODES.ok : EXIT_CODES.usage;
+  }
+
+  const timeoutMs = parsePositiveInteger(values.timeout);
+  const intervalMs = parsePositiveInteger(values.interval);
+  if (timeoutMs === null || intervalMs === null) {
+    io.stderr.write("--timeout and --interval must be positive integers\n");
+    return EXIT_CODES.usage;
+  }
+
+  const client =
+    io.client ?? new LodestoneWorldStatus(timeoutMs ? { timeoutMs } : {});
+  const name = rest.join(" ");
+  const json = values.json;
+
+  try {
+    switch (command) {
+      case "world":
+        if (!name) break;
+        return await showWorld(client, name, json, io);
+      case "dc":
+        if (!name) break;
+        return await showDataCenter(client, name, json, io);
+      case "region":
+        if (!LOOKUP_REGIONS.includes(name as Region)) break;
+        return await showRegion(client, name as Region, json, io);
+      case "all":
+        return await showAll(client, json, io);
+      case "watch":
+        return await watch(client, intervalMs, json, io);
+    }
+  } catch (error) {
+    io.stderr.write(
+      `${error instanceof Error ? error.message : "Unknown error"}\n`,
+    );
+    return EXIT_CODES.error;
+  }
+
+  io.stderr.write(USAGE);
+  return EXIT_CODES.usage;
+}
+
+async function showWorld(
+  client: LodestoneWorldStatus,
+  name: string,
+  json: boolean,
+  io: CliIo,
+): Promise<number> {
+  const dataCenters = await client.getAllWorlds({ signal: io.signal });
+  const row = locateWorld(dataCenters, name);
+  if (!row) {
+    const suggestions = await client.suggestWorlds(name, {
+      limit: 3,
+      signal: io.signal,
+    });
+    io.stderr.write(`World not found: ${name}\n${didYouMean(suggestions)}`);
+    return EXIT_CODES.notFound;
+  }
+
+  const result = {
+    ...row.world,
+    dataCenter: row.dataCenter,
+    region: row.region,
+  };
+  io.stdout.write(
+    json ? `${JSON.stringify(result, null, 2)}\n` : formatWorldTable([row]),
+  );
+
+  switch (row.world.status) {
+    case "online":
+      return EXIT_CODES.ok;
+    case "maintenance":
+    case "partial-maintenance":
+      return EXIT_CODES.maintenance;
+    default:
+      return EXIT_CODES.unknownStatus;
+  }
+}
+
+async function showDataCenter(
+  client: LodestoneWorldStatus,
+  name: string,
+  json: boolean,
+  io: CliIo,
+): Promise<number> {
+  const dataCenter = await client.getDataCenter(name, { signal: io.signal });
+  if (!dataCenter) {
+    const suggestions = await client.suggestDataCenters(name, {
+      limit: 3,
+      signal: io.signal,
+    });
+    io.stderr.write(
+      `Data center not found: ${name}\n${didYouMean(suggestions)}`,
+    );
+    return EXIT_CODES.notFound;
+  }
+
+  io.stdout.write(
+    json
+      ? `${JSON.stringify(dataCenter, null, 2)}\n`
+      : formatWorldTable(toRows([dataCenter])),
+  );
+  return EXIT_CODES.ok;
+}
+
+async function showRegion(
+  client: LodestoneWorldStatus,
+  region: Region,
+  json: boolean,
+  io: CliIo,
+): Promise<number> {
+  const dataCenters = await client.getWorldsByRegion(region, {
+    signal: io.signal,
+  });
+  io.stdout.write(
+    json
+      ? `${JSON.stringify(dataCenters, null, 2)}\n`
+      : formatWorldTable(toRows(dataCenters)),
+  );
+  return EXIT_CODES.ok;
+}
+
+async function showAll(
+  client: LodestoneWorldStatus,
+  json: boolean,
+  io: CliIo,
+): Promise<number> {
+  const dataCenters = await client.getAllWorlds({ signal: io.signal });
+  io.stdout.write(
+    json
+      ? `${JSON.stringify(dataCenters, null, 2)}\n`
+      : formatWorldTable(toRows(dataCenters)),
+  );
+  return EXIT_CODES.ok;
+}
+
+async function watch(
+  client: LodestoneWorldStatus,
+  intervalMs: number | undefined,
+  json: boolean,
+  io: CliIo,
+): Promise<number> {
+  const watcher = client.watch({ intervalMs, signal: io.signal });
+  watcher.on("error", (error) => {
+    io.stderr.write(
+      `Poll failed: ${error instanceof Error ? error.message : "Unknown error"}\n`,
+    );
+  });
+  watcher.on("change", (change) => {
+    io.stdout.write(
+      json ? `${JSON.stringify(change)}\n` : `${formatChange(change)}\n`,
+    );
+  });
+
+  if (!json) {
+    io.stdout.write("Watching world status (Ctrl+C to stop)\n");
+  }
+  await new Promise<void>((resolve) => {
+    if (!watcher.isRunning()) {
+      resolve();
+      return;
+    }
+    watcher.once("stop", resolve);
+  });
+  return EXIT_CODES.ok;
+}
+
+function toRows(dataCenters: readonly DataCenter[]): WorldRow[] {
+  return dataCenters.flatMap((dataCenter) =>
+    dataCenter.worlds.map((world) => ({
+      world,
+      dataCenter: dataCenter.name,
+      region: dataCenter.region,
+    })),
+  );
+}
+
+/**
+ * Formats worlds as an aligned plain-text table
+ * @param rows Worlds along with the data center they belong to
+ * @returns Table text ending in a newline
+ */
+function formatWorldTable(rows: readonly WorldRow[]): string {
+  const header = [
+    "World",
+    "Data Center",
+    "Region",
+    "Status",
+    "Population",
+    "New Characters",
+  ];
+  const body = rows.map(({ world, dataCenter, region }) => [
+    world.name,
+    dataCenter,
+    region.toUpperCase(),
+    world.status,
+    world.population,
+    world.newCharacterCreation ? "available" : "unavailable",
+  ]);
+
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...body.map((cells) => cells[column].length)),
+  );
+  const formatLine = (cells: readonly string[]) =>
+    cells
+      .map((cell, column) => cell.padEnd(widths[column]))
+      .join("  ")
+      .trimEnd();
+
+  return [
+    formatLine(header),
+    formatLine(widths.map((width) => "-".repeat(width))),
+    ...body.map(formatLine),
+  ]
+    .map((line) => `${line}\n`)
+    .join("");
+}
+
+function formatChange(change: WorldStatusChange): string {
+  const time = new Date().toISOString();
+  switch (change.type) {
+    case "datacenter-added":
+      return `${time}  ${change.dataCenter}: data center added`;
+    case "datacenter-removed":
+      return `${time}  ${change.dataCenter}: data center removed`;
+    case "world-added":
+      return `${time}  ${change.world} (${change.dataCenter}): world added`;
+    case "world-removed":
+      return `${time}  ${change.world} (${change.dataCenter}): world removed`;
+    default:
+      return `${time}  ${change.world} (${change.dataCenter}): ${change.type} ${change.before} -> ${change.after}`;
+  }
+}
+
+function didYouMean(suggestions: readonly NameSuggestion[]): string {
+  return suggestions.length > 0
+    ? `Did you mean: ${suggestions.map(({ name }) => name).join(", ")}?\n`
+    : "";
+}
+
+function parsePositiveInteger(
+  value: string | undefined,
+): number | undefined | null {
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+}
@@ -0,0 +1,146 @@
+import type { ParseDiagnostics } from "../types/index.js";
+
+/**
+ * HTTP statuses that usually clear up on their own, used for
+ * `HttpError.retryable` and as the default retry policy's status list
+ */
+export const RETRYABLE_HTTP_STATUSES: readonly number[] = [
+  408, 429, 502, 503, 504,
+];
+
+/**
+ * Base class for all errors raised by this library
+ */
+export class LodestoneError extends Error {
+  readonly cause?: unknown;
+  /** Whether the same request may succeed if tried again later */
+  readonly retryable: boolean;
+
+  constructor(
+    message: string,
+    options: { cause?: unknown; retryable?: boolean } = {},
+  ) {
+    super(message);
+    this.name = new.target.name;
+    this.retryable = options.retryable ?? false;
+    if (options.cause !== undefined) {
+      this.cause = options.cause;
+    }
+  }
+}
+
+/**
+ * Raised when a request does not complete within its timeout
+ */
+export class RequestTimeoutError extends LodestoneError {
+  readonly url: string;
+  readonly timeoutMs: number;
+
+  constructor(url: string, timeoutMs: number) {
+    super(`Request to ${url} timed out after ${timeoutMs}ms`, {
+      retryable: true,
+    });
+    this.url = url;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Raised when a request is cancelled through its AbortSignal
+ */
+export class RequestAbortedError extends LodestoneError {
+  readonly url: string;
+
+  constructor(url: string, reason?: unknown) {
+    super(`Request to ${url} was aborted`, { cause: reason });
+    this.url = url;
+  }
+}
+
+/**
+ * Raised when the transport fails before an HTTP response is received
+ */
+export class NetworkError extends LodestoneError {
+  readonly url: string;
+
+  constructor(url: string, cause: unknown) {
+    super(
+      `Request to ${url} failed: ${cause instanceof Error ? cause.message : "Unknown error"}`,
+      { cause, retryable: true },
+    );
+    this.url = url;
+  }
+}
+
+/**
+ * Raised when Lodestone responds with a non-success HTTP status
+ */
+export class HttpError extends LodestoneError {
+  readonly url: string;
+  readonly status: number;
+  readonly retryAfter: string | null;
+
+  constructor(url: string, status: number, retryAfter: string | null = null) {
+    super(`HTTP error! status: ${status}`, {
+      retryable: RETRYABLE_HTTP_STATUSES.includes(status),
+    });
+    this.url = url;
+    this.status = status;
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Raised when a page was fetched but could not be turned into world status
+ */
+export class ParseError extends LodestoneError {
+  readonly url: string | null;
+
+  constructor(
+    message: string,
+    options: { url?: string | null; cause?: unknown } = {},
+  ) {
+    super(message, { cause: options.cause });
+    this.url = options.url ?? null;
+  }
+}
+
+/**
+ * Raised in strict parsing mode when the parsed results look implausible,
+ * which usually means Lodestone changed its markup
+ */
+export class SchemaDriftError extends ParseError {
+  /** Why the results were considered implausible */
+  readonly reasons: readonly string[];
+  readonly diagnostics: ParseDiagnostics;
+
+  constructor(
+    reasons: readonly string[],
+    diagnostics: ParseDiagnostics,
+    options: { url?: string | null } = {},
+  ) {
+    super(
+      `World status markup appears to have changed: ${reasons.join("; ")}`,
+      {
+        url: options.url,
+      },
+    );
+    this.reasons = reasons;
+    this.diagnostics = diagnostics;
+  }
+}
+
+/**
+ * Raised when a value such as a world or data center name is invalid
+ */
+export class ValidationError extends LodestoneError {
+  /** What was being validated, e.g. "world name" */
+  readonly field: string;
+  readonly value: unknown;
+
+  constructor(field: string, value: unknown) {
+    super(`Invalid ${field}: ${String(value)}`);
+    this.field = field;
+    this.value = value;
+  }
+}
@@ -0,0 +1,286 @@
+import debug from "debug";
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { normalizeLookupName } from "../utils/fuzzy.js";
+import { isNotFound, isRecord } from "../utils/guards.js";
+import type {
+  DataCenter,
+  PopulationLevel,
+  Region,
+  StatusHistoryQuery,
+  StatusHistoryStore,
+  StatusTransition,
+  WorldCategory,
+  WorldStatusType,
+} from "../types/index.js";
+import {
+  createDataCenterName,
+  createWorldName,
+  POPULATION_LEVELS,
+  REGIONS,
+  WORLD_CATEGORIES,
+  WORLD_STATUS_TYPES,
+} from "../types/index.js";
+
+export * from "./stats.js";
+
+const log = debug("lodestone-world-status:history");
+
+/**
+ * Records world status snapshots as per-world state transitions, skipping
+ * worlds whose status, population, category and character creation are the
+ * same as when they were last recorded. Worlds that go missing from a
+ * snapshot are recorded as absent until they show up again.
+ */
+export class StatusHistoryRecorder {
+  private readonly store: StatusHistoryStore;
+  private lastStates: Map<string, StatusTransition> | null = null;
+  private pending: Promise<unknown> = Promise.resolve();
+
+  /**
+   * @param store Store to append transitions to and read history from
+   */
+  constructor(store: StatusHistoryStore) {
+    this.store = store;
+  }
+
+  /**
+   * Records the worlds in a snapshot that changed since they were last seen
+   * @param dataCenters World status snapshot
+   * @param at When the snapshot was fetched, in ms since the epoch (default: now)
+   * @returns Promise resolving to the transitions that were appended
+   */
+  record(
+    dataCenters: readonly DataCenter[],
+    at: number = Date.now(),
+  ): Promise<StatusTransition[]> {
+    // Snapshots are recorded one at a time so each compares with the last
+    const recorded = this.pending.then(() =>
+      this.recordSnapshot(dataCenters, at),
+    );
+    this.pending = recorded.catch(() => undefined);
+    return recorded;
+  }
+
+  /**
+   * Reads recorded transitions
+   * @param query World, data center, region and time range to filter by
+   * @returns Promise resolving to matching transitions, oldest first
+   */
+  query(query: StatusHistoryQuery = {}): Promise<StatusTransition[]> {
+    return this.store.query(query);
+  }
+
+  private async recordSnapshot(
+    dataCenters: readonly DataCenter[],
+    at: number,
+  ): Promise<StatusTransition[]> {
+    // Pick up where earlier runs left off, so a restart doesn't duplicate
+    // every world's current state
+    const lastStates = this.lastStates ?? (await this.loadLastStates());
+    const transitions: StatusTransition[] = [];
+    const seen = new Set<string>();
+
+    for (const dc of dataCenters) {
+      for (const world of dc.worlds) {
+        const transition: StatusTransition = {
+          world: world.name,
+          dataCenter: dc.name,
+          region: dc.region,
+          status: world.status,
+          population: world.population,
+          category: world.category,
+          newCharacterCreation: world.newCharacterCreation,
+          at,
+        };
+        const last = lastStates.get(world.name);
+        seen.add(world.name);
+        if (!last || !isSameState(last, transition)) {
+          transitions.push(transition);
+        }
+      }
+    }
+
+    // An empty snapshot says more about the parse than about the worlds
+    if (dataCenters.length > 0) {
+      for (const last of lastStates.values()) {
+        if (!seen.has(last.world) && !last.absent) {
+          transitions.push({ ...last, at, absent: true });
+        }
+      }
+    }
+
+    if (transitions.length > 0) {
+      await this.store.append(transitions);
+      for (const transition of transitions) {
+        lastStates.set(transition.world, transition);
+      }
+    }
+    this.lastStates = lastStates;
+
+    log("Recorded %d transitions from snapshot at %d", transitions.length, at);
+    return transitions;
+  }
+
+  private async loadLastStates(): Promise<Map<string, StatusTransition>> {
+    const lastStates = new Map<string, StatusTransition>();
+    for (const transition of await this.store.query()) {
+      lastStates.set(transition.world, transition);
+    }
+    return lastStates;
+  }
+}
+
+/**
+ * Status history store that keeps transitions in an array, useful for tests
+ * and short-lived processes
+ */
+export class MemoryStatusHistoryStore implements StatusHistoryStore {
+  private readonly transitions: StatusTransition[] = [];
+
+  async append(transitions: readonly StatusTransition[]): Promise<void> {
+    this.transitions.push(...transitions);
+  }
+
+  async query(query: StatusHistoryQuery = {}): Promise<StatusTransition[]> {
+    return filterTransitions(this.transitions, query);
+  }
+}
+
+/**
+ * Status history store that appends each transition as a line of JSON to a
+ * file. Lines that can't be read back are skipped.
+ */
+export class FileStatusHistoryStore implements StatusHistoryStore {
+  private readonly path: string;
+
+  /**
+   * @param path JSON-lines file to append to, created on first write
+   */
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async append(transitions: readonly StatusTransition[]): Promise<void> {
+    if (transitions.length === 0) {
+      return;
+    }
+
+    await mkdir(dirname(this.path), { recursive: true });
+    await appendFile(
+      this.path,
+      transitions
+        .map((transition) => `${JSON.stringify(transition)}\n`)
+        .join(""),
+      "utf8",
+    );
+    log("Appended %d transitions to %s", transitions.length, this.path);
+  }
+
+  async query(query: StatusHistoryQuery = {}): Promise<StatusTransition[]> {
+    let contents: string;
+    try {
+      contents = await readFile(this.path, "utf8");
+    } catch (error) {
+      if (isNotFound(error)) {
+        return [];
+      }
+      throw error;
+    }
+
+    const transitions: StatusTransition[] = [];
+    for (const line of contents.split("\n")) {
+      if (!line.trim()) {
+        continue;
+      }
+
+      const transition = parseTransition(line);
+      if (transition) {
+        transitions.push(transition);
+      }
+    }
+
+    return filterTransitions(transitions, query);
+  }
+}
+
+/**
+ * Filters transitions by a history query and sorts them oldest first
+ */
+function filterTransitions(
+  transitions: readonly StatusTransition[],
+  { world, dataCenter, region, from, to }: StatusHistoryQuery,
+): StatusTransition[] {
+  const worldName =
+    world === undefined ? undefined : normalizeLookupName(world);
+  const dataCenterName =
+    dataCenter === undefined ? undefined : normalizeLookupName(dataCenter);
+
+  return transitions
+    .filter(
+      (transition) =>
+        (worldName === undefined ||
+          normalizeLookupName(transition.world) === worldName) &&
+        (dataCenterName === undefined ||
+          normalizeLookupName(transition.dataCenter) === dataCenterName) &&
+        (region === undefined || transition.region === region) &&
+        (from === undefined || transition.at >= from) &&
+        (to === undefined || transition.at < to),
+    )
+    .sort((a, b) => a.at - b.at);
+}
+
+function isSameState(a: StatusTransition, b: StatusTransition): boolean {
+  return (
+    a.dataCenter === b.dataCenter &&
+    a.status === b.status &&
+    a.population === b.population &&
+    a.category === b.category &&
+    a.newCharacterCreation === b.newCharacterCreation &&
+    a.absent === b.absent
+  );
+}
+
+/**
+ * Reads a stored transition, validating every field and re-creating the
+ * branded world and data center names
+ * @returns The transition, or null if the line is malformed
+ */
+function parseTransition(line: string): StatusTransition | null {
+  try {
+    const value: unknown = JSON.parse(line);
+    if (
+      !isRecord(value) ||
+      typeof value.world !== "string" ||
+      typeof value.dataCenter !== "string" ||
+      !REGIONS.includes(value.region as Region) ||
+      !WORLD_STATUS_TYPES.includes(value.status as WorldStatusType) ||
+      !POPULATION_LEVELS.includes(value.population as PopulationLevel) ||
+      !WORLD_CATEGORIES.includes(value.category as WorldCategory) ||
+      typeof value.newCharacterCreation !== "boolean" ||
+      typeof value.at !== "number" ||
+      (value.absent !== undefined && value.absent !== true)
+    ) {
+      log("Skipping stored transition with unexpected shape");
+      return null;
+    }
+
+    const transition: StatusTransition = {
+      world: createWorldName(value.world),
+      dataCenter: createDataCenterName(value.dataCenter),
+      region: value.region as Region,
+      status: value.status as WorldStatusType,
+      population: value.population as PopulationLevel,
+      category: value.category as WorldCategory,
+      newCharacterCreation: value.newCharacterCreation,
+      at: value.at,
+    };
+    return value.absent ? { ...transition, absent: true } : transition;
+  } catch (error) {
+    log(
+      "Skipping unreadable stored transition: %s",
+      error instanceof Error ? error.message : "Unknown error",
+    );
+    return null;
+  }
+}
@@ -0,0 +1,216 @@
+import type {
+  DataCenterStatusStats,
+  PopulationLevel,
+  RegionStatusStats,
+  StatusStats,
+  StatusStatsOptions,
+  StatusStatsReport,
+  StatusTransition,
+  WorldStatusStats,
+} from "../types/index.js";
+import { POPULATION_LEVELS } from "../types/index.js";
+
+// Durations that add up across worlds, before they become percentages
+interface StatusTotals {
+  trackedMs: number;
+  onlineMs: number;
+  maintenanceCount: number;
+  maintenanceMs: number;
+  longestMaintenanceMs: number;
+  populationMs: Record<PopulationLevel, number>;
+}
+
+interface DataCenterTotals {
+  readonly dataCenter: DataCenterStatusStats["dataCenter"];
+  readonly region: DataCenterStatusStats["region"];
+  readonly totals: StatusTotals;
+}
+
+interface RegionTotals {
+  readonly region: RegionStatusStats["region"];
+  readonly totals: StatusTotals;
+}
+
+/**
+ * Computes uptime, maintenance and population statistics from status
+ * history. Each transition's state lasts until the world's next transition,
+ * so pass transitions from before the period too: the last one sets each
+ * world's state at its start. Time a world spends absent isn't tracked.
+ * @param transitions Recorded transitions, in any order
+ * @param options Start and end of the period
+ * @returns Statistics per world, data center and region
+ */
+export function computeStatusStats(
+  transitions: readonly StatusTransition[],
+  options: StatusStatsOptions = {},
+): StatusStatsReport {
+  const sorted = [...transitions].sort((a, b) => a.at - b.at);
+  const from = options.from ?? sorted[0]?.at ?? Date.now();
+  const to = options.to ?? Date.now();
+  if (to < from) {
+    throw new Error(
+      `Statistics period must not end before it starts, got: ${from} to ${to}`,
+    );
+  }
+
+  const byWorld = new Map<string, StatusTransition[]>();
+  for (const transition of sorted) {
+    const history = byWorld.get(transition.world) ?? [];
+    history.push(transition);
+    byWorld.set(transition.world, history);
+  }
+
+  const worlds: WorldStatusStats[] = [];
+  const dataCenters = new Map<string, DataCenterTotals>();
+  const regions = new Map<string, RegionTotals>();
+
+  for (const history of byWorld.values()) {
+    const totals = sumWorld(history, from, to);
+    // Worlds that moved are reported under their latest data center
+    const { world, dataCenter, region } = history[history.length - 1];
+    worlds.push({ world, dataCenter, region, ...toStats(totals) });
+
+    const dcTotals = dataCenters.get(dataCenter) ?? {
+      dataCenter,
+      region,
+      totals: emptyTotals(),
+    };
+    addTotals(dcTotals.totals, totals);
+    dataCenters.set(dataCenter, dcTotals);
+
+    const regionTotals = regions.get(region) ?? {
+      region,
+      totals: emptyTotals(),
+    };
+    addTotals(regionTotals.totals, totals);
+    regions.set(region, regionTotals);
+  }
+
+  return {
+    from,
+    to,
+    worlds,
+    dataCenters: [...dataCenters.values()].map(
+      ({ dataCenter, region, totals }): DataCenterStatusStats => ({
+        dataCenter,
+        region,
+        ...toStats(totals),
+      }),
+    ),
+    regions: [...regions.values()].map(
+      ({ region, totals }): RegionStatusStats => ({
+        region,
+        ...toStats(totals),
+      }),
+    ),
+  };
+}
+
+/**
+ * Adds up how long one world spent in each state within the period
+ * @param history The world's transitions, oldest first
+ */
+function sumWorld(
+  history: readonly StatusTransition[],
+  from: number,
+  to: number,
+): StatusTotals {
+  const totals = emptyTotals();
+  // Maintenance that continues across transitions is a single window
+  let maintenanceMs: number | null = null;
+
+  history.forEach((transition, index) => {
+    const start = Math.max(transition.at, from);
+    const end = Math.min(history[index + 1]?.at ?? to, to);
+    const duration = Math.max(end - start, 0);
+    // Nothing is known about a world while it's missing from snapshots
+    if (transition.absent) {
+      if (maintenanceMs !== null && duration > 0) {
+        endMaintenance(totals, maintenanceMs);
+        maintenanceMs = null;
+      }
+      return;
+    }
+    const inMaintenance =
+      transition.status === "maintenance" ||
+      transition.status === "partial-maintenance";
+
+    if (inMaintenance && duration > 0) {
+      maintenanceMs = (maintenanceMs ?? 0) + duration;
+    } else if (!inMaintenance && maintenanceMs !== null && duration > 0) {
+      endMaintenance(totals, maintenanceMs);
+      maintenanceMs = null;
+    }
+
+    totals.trackedMs += duration;
+    totals.populationMs[transition.population] += duration;
+    if (transition.status === "online") {
+      totals.onlineMs += duration;
+    }
+  });
+
+  if (maintenanceMs !== null) {
+    endMaintenance(totals, maintenanceMs);
+  }
+  return totals;
+}
+
+function endMaintenance(totals: StatusTotals, durationMs: number): void {
+  totals.maintenanceCount += 1;
+  totals.maintenanceMs += durationMs;
+  totals.longestMaintenanceMs = Math.max(
+    totals.longestMaintenanceMs,
+    durationMs,
+  );
+}
+
+function emptyTotals(): StatusTotals {
+  return {
+    trackedMs: 0,
+    onlineMs: 0,
+    maintenanceCount: 0,
+    maintenanceMs: 0,
+    longestMaintenanceMs: 0,
+    populationMs: Object.fromEntries(
+      POPULATION_LEVELS.map((level) => [level, 0]),
+    ) as Record<PopulationLevel, number>,
+  };
+}
+
+function addTotals(target: StatusTotals, totals: StatusTotals): void {
+  target.trackedMs += totals.trackedMs;
+  target.onlineMs += totals.onlineMs;
+  target.maintenanceCount += totals.maintenanceCount;
+  target.maintenanceMs += totals.maintenanceMs;
+  target.longestMaintenanceMs = Math.max(
+    target.longestMaintenanceMs,
+    totals.longestMaintenanceMs,
+  );
+  for (const level of POPULATION_LEVELS) {
+    target.populationMs[level] += totals.populationMs[level];
+  }
+}
+
+function toStats(totals: StatusTotals): StatusStats {
+  const percentOf = (ms: number) =>
+    totals.trackedMs === 0 ? 0 : (ms / totals.trackedMs) * 100;
+
+  return {
+    trackedMs: totals.trackedMs,
+    onlineMs: totals.onlineMs,
+    onlinePercent: percentOf(totals.onlineMs),
+    maintenanceCount: totals.maintenanceCount,
+    maintenanceMs: totals.maintenanceMs,
+    longestMaintenanceMs: totals.longestMaintenanceMs,
+    meanMaintenanceMs:
+      totals.maintenanceCount === 0
+        ? 0
+        : totals.maintenanceMs / totals.maintenanceCount,
+    populationPercent: Object.fromEntries(
+      POPULATION_LEVELS.map((level) => [
+        level,
+        percentOf(totals.populationMs[level]),
+      ]),
+    ) as Record<PopulationLevel, number>,
+  };
+}
@@ -1,112 +1,423 @@
 export * from "./types/index.js";
 export * from "./utils/index.js";
+export * from "./errors/index.js";
+export * from "./watcher/index.js";
+export * from "./metrics/index.js";
+export * from "./server/index.js";
+export * from "./stream/index.js";
+export * from "./registry/index.js";
+export * from "./travel/index.js";
+export * from "./history/index.js";
+export * from "./alerts/index.js";
 
 import debug from "debug";
 import {
   fetchHtml,
+  getMaintenanceNewsUrl,
+  getWorldStatusUrl,
+  parseMaintenanceList,
+  parseMaintenanceNotice,
   parseWorldStatus,
   Cache,
-  normalizeWorldName,
+  findByName,
+  rankByName,
+  RequestCoalescer,
+  serializeWorldStatusEntry,
+  deserializeWorldStatusEntry,
+  NO_RETRY_POLICY,
+  resolveRetryPolicy,
+  withRetry,
 } from "./utils/index.js";
+import type { ResolvedRetryPolicy } from "./utils/index.js";
+import {
+  LodestoneError,
+  ParseError,
+  RequestAbortedError,
+} from "./errors/index.js";
+import { WorldStatusWatcher } from "./watcher/index.js";
+import { checkTravelEligibility, locateWorld } from "./travel/index.js";
+import { StatusHistoryRecorder, computeStatusStats } from "./history/index.js";
+import { LODESTONE_LOCALES } from "./types/index.js";
 import type {
   WorldStatus,
   DataCenter,
   Region,
+  CacheEntry,
   CacheStatistics,
+  CacheStorageAdapter,
+  Clock,
+  HttpTransport,
+  LodestoneLocale,
+  LodestoneWorldStatusOptions,
+  MaintenanceWindow,
+  RequestOptions,
+  StatusHistoryQuery,
+  StatusStatsReport,
+  StatusTransition,
+  SuggestOptions,
+  TravelEligibility,
+  WorldSuggestion,
+  DataCenterSuggestion,
+  WatchOptions,
 } from "./types/index.js";
 
 const log = debug("lodestone-world-status");
 
+// Notices are listed newest first, and upcoming maintenance is announced at
+// most a few notices ahead
+const MAINTENANCE_NOTICE_LIMIT = 5;
+
 /**
  * Main library functionality for checking Lodestone world status
  */
 export class LodestoneWorldStatus {
-  private readonly baseUrl: string = "https://na.finalfantasyxiv.com/lodestone";
-  private readonly worldStatusUrl: string = `${this.baseUrl}/worldstatus/`;
+  private readonly locale: LodestoneLocale;
+  private readonly worldStatusUrl: string;
   private readonly cache: Cache<DataCenter[]>;
+  private readonly transport: HttpTransport | undefined;
+  private readonly timeoutMs: number;
+  private readonly retryPolicy: ResolvedRetryPolicy;
+  private readonly clock: Clock | undefined;
+  private readonly random: (() => number) | undefined;
+  private readonly strictParsing: boolean;
+  private readonly staleWhileRevalidateMs: number;
+  private readonly staleIfErrorMs: number;
+  private readonly inFlight = new RequestCoalescer<DataCenter[]>();
+  private readonly storage: CacheStorageAdapter | undefined;
+  private readonly storageKey: string;
+  private storageCleared: boolean = false;
+  private readonly history: StatusHistoryRecorder | undefined;
+  private readonly maintenanceNewsUrl: string;
+  private readonly maintenanceCache: Cache<MaintenanceWindow[]>;
+  private readonly maintenanceInFlight = new RequestCoalescer<
+    MaintenanceWindow[]
+  >();
 
-  constructor(cacheExpirationMs: number = 5 * 60 * 1000) {
+  /**
+   * @param options Client options, or the cache expiration in milliseconds
+   */
+  constructor(options: number | LodestoneWorldStatusOptions = {}) {
+    const resolved =
+      typeof options === "number" ? { cacheExpirationMs: options } : options;
+    const cacheExpirationMs = resolved.cacheExpirationMs ?? 5 * 60 * 1000;
     this.cache = new Cache<DataCenter[]>(cacheExpirationMs);
+    this.maintenanceCache = new Cache<MaintenanceWindow[]>(cacheExpirationMs);
+
+    const { staleWhileRevalidateMs = 0, staleIfErrorMs = 0 } =
+      resolved.cachePolicy ?? {};
+    if (staleWhileRevalidateMs < 0 || staleIfErrorMs < 0) {
+      throw new Error("Cache policy stale windows must not be negative");
+    }
+    this.staleWhileRevalidateMs = staleWhileRevalidateMs;
+    this.staleIfErrorMs = staleIfErrorMs;
+
+    this.storage = resolved.storage;
+    this.storageKey = resolved.storageKey ?? "lodestone-world-status";
+    this.history = resolved.history
+      ? new StatusHistoryRecorder(resolved.history)
+      : undefined;
+
+    this.transport = resolved.transport;
+
+    const timeoutMs = resolved.timeoutMs ?? 30 * 1000;
+    if (timeoutMs <= 0 || !Number.isInteger(timeoutMs)) {
+      throw new Error(
+        `Request timeout must be a positive integer, got: ${timeoutMs}`,
+      );
+    }
+    this.timeoutMs = timeoutMs;
+
+    this.retryPolicy = resolved.retry
+      ? resolveRetryPolicy(resolved.retry)
+      : NO_RETRY_POLICY;
+    this.clock = resolved.clock;
+    this.random = resolved.random;
+    this.strictParsing = resolved.strictParsing ?? false;
+
+    const locale = resolved.locale ?? "na";
+    if (!LODESTONE_LOCALES.includes(locale)) {
+      throw new Error(
+        `Locale must be one of ${LODESTONE_LOCALES.join(", ")}, got: ${locale}`,
+      );
+    }
+    this.locale = locale;
+    this.worldStatusUrl = getWorldStatusUrl(locale);
+    this.maintenanceNewsUrl = getMaintenanceNewsUrl(locale);
   }
 
   /**
-   * Fetches fresh world status data from Lodestone
+   * Fetches world status data, from cache when possible
+   * @param options Optional AbortSignal and timeout override for this call
    * @returns Promise resolving to array of data centers with world status
    */
-  async fetchWorldStatus(): Promise<DataCenter[]> {
+  async fetchWorldStatus(options: RequestOptions = {}): Promise<DataCenter[]> {
     // Check cache first
-    const cachedData = this.cache.get();
+    let cachedData = this.cache.peek();
+
+    // Another process may have stored newer data
+    if (!cachedData && this.storage && (await this.restoreFromStorage())) {
+      cachedData = this.cache.peek();
+    }
+
+    // Fresh data restored from storage counts as a hit, once
+    this.cache.countLookup(cachedData !== null);
     if (cachedData) {
       return cachedData;
     }
 
+    const staleData = this.cache.getStale(this.staleWhileRevalidateMs);
+    if (staleData) {
+      log("Serving stale data while revalidating in the background");
+      this.revalidate();
+      return staleData;
+    }
+
+    try {
+      return await this.fetchShared(options);
+    } catch (error) {
+      if (!(error instanceof RequestAbortedError)) {
+        const fallbackData = this.cache.getStale(this.staleIfErrorMs);
+        if (fallbackData) {
+          log("Serving stale data after failed refresh");
+          return fallbackData;
+        }
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Starts a fresh fetch, or joins the one already in flight so that
+   * concurrent cache misses share a single scrape
+   */
+  private fetchShared(options: RequestOptions): Promise<DataCenter[]> {
+    return this.inFlight.run(
+      (signal) =>
+        this.fetchFreshWorldStatus({ signal, timeoutMs: options.timeoutMs }),
+      options.signal,
+      (reason) => new RequestAbortedError(this.worldStatusUrl, reason),
+    );
+  }
+
+  /**
+   * Scrapes Lodestone and stores the result in the cache
+   */
+  private async fetchFreshWorldStatus(
+    options: RequestOptions,
+  ): Promise<DataCenter[]> {
     log("Cache miss - fetching fresh data from %s", this.worldStatusUrl);
 
+    let html: string;
     try {
-      const html = await fetchHtml(this.worldStatusUrl);
-      log("Successfully fetched HTML (%d characters)", html.length);
+      html = await this.fetchPage(this.worldStatusUrl, options);
+    } catch (error) {
+      throw this.toLodestoneError(error, "fetch");
+    }
+    log("Successfully fetched HTML (%d characters)", html.length);
 
+    let dataCenters: DataCenter[];
+    try {
       // Parse world status using semantic HTML structure parsing
       log("Parsing world status data");
-      const dataCenters = parseWorldStatus(html);
+      dataCenters = parseWorldStatus(html, {
+        strict: this.strictParsing,
+        locale: this.locale,
+        url: this.worldStatusUrl,
+      });
+    } catch (error) {
+      throw this.toLodestoneError(error, "parse");
+    }
+    log(
+      "Successfully parsed world status: %d data centers",
+      dataCenters.length,
+    );
+
+    // Cache the results
+    const storedAt = Date.now();
+    this.cache.set(dataCenters, storedAt);
+    await this.writeToStorage({ data: dataCenters, storedAt });
+    await this.recordHistory(dataCenters, storedAt);
+
+    const totalWorlds = dataCenters.reduce(
+      (sum, dc) => sum + dc.worlds.length,
+      0,
+    );
+    log(
+      "Cached %d data centers with %d total worlds",
+      dataCenters.length,
+      totalWorlds,
+    );
+
+    return dataCenters;
+  }
+
+  /**
+   * Fetches a Lodestone page with the client's transport, timeout and retry
+   * policy
+   */
+  private fetchPage(url: string, options: RequestOptions): Promise<string> {
+    return withRetry(
+      () =>
+        fetchHtml(url, {
+          transport: this.transport,
+          signal: options.signal,
+          timeoutMs: options.timeoutMs ?? this.timeoutMs,
+        }),
+      {
+        policy: this.retryPolicy,
+        clock: this.clock,
+        random: this.random,
+        signal: options.signal,
+      },
+    );
+  }
+
+  /**
+   * Passes library errors through unchanged so callers keep the status code,
+   * URL and cause, and wraps anything else thrown by a custom transport.
+   * Parser failures always surface as ParseError with the page URL, even
+   * when the parser threw another library error such as ValidationError.
+   */
+  private toLodestoneError(
+    error: unknown,
+    stage: "fetch" | "parse",
+    url: string = this.worldStatusUrl,
+    subject: string = "world status",
+  ): LodestoneError {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    log("Failed to fetch %s: %s", subject, message);
+    if (stage === "parse") {
+      return error instanceof ParseError
+        ? error
+        : new ParseError(`Failed to fetch ${subject}: ${message}`, {
+            url,
+            cause: error,
+          });
+    }
+
+    return error instanceof LodestoneError
+      ? error
+      : new LodestoneError(`Failed to fetch ${subject}: ${message}`, {
+          cause: error,
+        });
+  }
+
+  /**
+   * Loads the stored entry into the cache if it is newer than what we have
+   * @returns True if the cache was updated from storage
+   */
+  private async restoreFromStorage(): Promise<boolean> {
+    if (!this.storage || this.storageCleared) {
+      return false;
+    }
+
+    try {
+      const json = await this.storage.get(this.storageKey);
+      const entry = json === null ? null : deserializeWorldStatusEntry(json);
+      if (!entry) {
+        log("No usable entry in storage under %s", this.storageKey);
+        return false;
+      }
+
+      const age = this.cache.getAge();
+      if (age !== null && Date.now() - age >= entry.storedAt) {
+        return false;
+      }
+
+      log("Restored cache from storage (stored at %d)", entry.storedAt);
+      this.cache.set(entry.data, entry.storedAt);
+      return true;
+    } catch (error) {
       log(
-        "Successfully parsed world status: %d data centers",
-        dataCenters.length,
+        "Failed to read from storage: %s",
+        error instanceof Error ? error.message : "Unknown error",
       );
+      return false;
+    }
+  }
 
-      // Cache the results
-      this.cache.set(dataCenters);
+  /**
+   * Persists a freshly fetched entry; storage failures never fail the fetch
+   */
+  private async writeToStorage(entry: CacheEntry<DataCenter[]>): Promise<void> {
+    if (!this.storage) {
+      return;
+    }
 
-      const totalWorlds = dataCenters.reduce(
-        (sum, dc) => sum + dc.worlds.length,
-        0,
-      );
+    try {
+      await this.storage.set(this.storageKey, serializeWorldStatusEntry(entry));
+      this.storageCleared = false;
+    } catch (error) {
       log(
-        "Cached %d data centers with %d total worlds",
-        dataCenters.length,
-        totalWorlds,
+        "Failed to write to storage: %s",
+        error instanceof Error ? error.message : "Unknown error",
       );
+    }
+  }
+
+  /**
+   * Records a freshly fetched snapshot; history failures never fail the fetch
+   */
+  private async recordHistory(
+    dataCenters: DataCenter[],
+    fetchedAt: number,
+  ): Promise<void> {
+    if (!this.history) {
+      return;
+    }
 
-      return dataCenters;
+    try {
+      await this.history.record(dataCenters, fetchedAt);
     } catch (error) {
       log(
-        "Failed to fetch world status: %s",
+        "Failed to record status history: %s",
         error instanceof Error ? error.message : "Unknown error",
       );
-      throw new Error(
-        `Failed to fetch world status: ${error instanceof Error ? error.message : "Unknown error"}`,
-      );
     }
   }
 
+  /**
+   * Refreshes the cache in the background unless a fetch is already running
+   */
+  private revalidate(): void {
+    if (this.inFlight.isPending()) {
+      return;
+    }
+
+    this.fetchShared({}).then(
+      () => log("Background revalidation complete"),
+      (error) =>
+        log(
+          "Background revalidation failed: %s",
+          error instanceof Error ? error.message : "Unknown error",
+        ),
+    );
+  }
+
   /**
    * Check the status of a specific world
-   * @param worldName The name of the world to check
+   * @param worldName The name of the world to check; case, accents, punctuation and small typos are tolerated
+   * @param options Optional AbortSignal and timeout override for this call
    * @returns Promise resolving to world status information, or null if not found
    */
-  async checkWorldStatus(worldName: string): Promise<WorldStatus | null> {
-    const normalizedName = normalizeWorldName(worldName);
-    log(
-      "Looking up world status for: %s (normalized: %s)",
-      worldName,
-      normalizedName,
-    );
+  async checkWorldStatus(
+    worldName: string,
+    options: RequestOptions = {},
+  ): Promise<WorldStatus | null> {
+    log("Looking up world status for: %s", worldName);
 
-    const dataCenters = await this.fetchWorldStatus();
+    const dataCenters = await this.fetchWorldStatus(options);
+    const match = locateWorld(dataCenters, worldName);
 
-    for (const dc of dataCenters) {
-      for (const world of dc.worlds) {
-        if (normalizeWorldName(world.name) === normalizedName) {
-          log(
-            "Found world %s in data center %s: %s (%s)",
-            world.name,
-            dc.name,
-            world.population,
-            world.status,
-          );
-          return world;
-        }
-      }
+    if (match) {
+      log(
+        "Found world %s in data center %s: %s (%s)",
+        match.world.name,
+        match.dataCenter,
+        match.world.population,
+        match.world.status,
+      );
+      return match.world;
     }
 
     log("World %s not found in any data center", worldName);
@@ -115,54 +426,258 @@ export class LodestoneWorldStatus {
 
   /**
    * Get all available worlds organized by data center
+   * @param options Optional AbortSignal and timeout override for this call
    * @returns Promise resolving to array of data centers with worlds
    */
-  async getAllWorlds(): Promise<DataCenter[]> {
-    return this.fetchWorldStatus();
+  async getAllWorlds(options: RequestOptions = {}): Promise<DataCenter[]> {
+    return this.fetchWorldStatus(options);
   }
 
   /**
    * Get all worlds in a flat array
+   * @param options Optional AbortSignal and timeout override for this call
    * @returns Promise resolving to array of all worlds
    */
-  async getAllWorldsFlat(): Promise<WorldStatus[]> {
-    const dataCenters = await this.fetchWorldStatus();
+  async getAllWorldsFlat(options: RequestOptions = {}): Promise<WorldStatus[]> {
+    const dataCenters = await this.fetchWorldStatus(options);
     return dataCenters.flatMap((dc) => dc.worlds);
   }
 
   /**
    * Get worlds by data center name
-   * @param dataCenterName The name of the data center
+   * @param dataCenterName The name of the data center; case, accents, punctuation and small typos are tolerated
+   * @param options Optional AbortSignal and timeout override for this call
    * @returns Promise resolving to data center info with worlds, or null if not found
    */
-  async getDataCenter(dataCenterName: string): Promise<DataCenter | null> {
-    const normalizedName = normalizeWorldName(dataCenterName);
-    const dataCenters = await this.fetchWorldStatus();
+  async getDataCenter(
+    dataCenterName: string,
+    options: RequestOptions = {},
+  ): Promise<DataCenter | null> {
+    const dataCenters = await this.fetchWorldStatus(options);
+    return findByName(dataCenterName, dataCenters, (dc) => dc.name);
+  }
 
-    for (const dc of dataCenters) {
-      if (normalizeWorldName(dc.name) === normalizedName) {
-        return dc;
-      }
+  /**
+   * Check whether a character can travel from their home world to another
+   * world right now
+   * @param homeWorld Name or alias of the character's home world
+   * @param targetWorld Name or alias of the world to travel to
+   * @param options Optional AbortSignal and timeout override for this call
+   * @returns Promise resolving to whether travel is allowed, with the restrictions that apply
+   */
+  async checkTravelEligibility(
+    homeWorld: string,
+    targetWorld: string,
+    options: RequestOptions = {},
+  ): Promise<TravelEligibility> {
+    const dataCenters = await this.fetchWorldStatus(options);
+    return checkTravelEligibility(dataCenters, homeWorld, targetWorld);
+  }
+
+  /**
+   * Read the status history recorded from fetched snapshots
+   * @param query World, data center, region and time range to filter by
+   * @returns Promise resolving to matching state transitions, oldest first
+   * @throws Error if the client was created without a history store
+   */
+  async getStatusHistory(
+    query: StatusHistoryQuery = {},
+  ): Promise<StatusTransition[]> {
+    if (!this.history) {
+      throw new Error(
+        "Status history is not enabled; pass a history store to the constructor",
+      );
     }
+    return this.history.query(query);
+  }
 
-    return null;
+  /**
+   * Compute uptime, maintenance and population statistics from the recorded
+   * status history
+   * @param query World, data center and region to report on, and the period (default: from the earliest transition until now)
+   * @returns Promise resolving to statistics per world, data center and region
+   * @throws Error if the client was created without a history store
+   */
+  async getStatusStats(
+    query: StatusHistoryQuery = {},
+  ): Promise<StatusStatsReport> {
+    const { from, to = Date.now(), ...filters } = query;
+    // Transitions before the period set each world's state at its start
+    const transitions = await this.getStatusHistory({ ...filters, to });
+    return computeStatusStats(transitions, { from, to });
+  }
+
+  /**
+   * Suggest worlds whose names are close to what the user typed, e.g. to
+   * offer "did you mean" when a lookup finds nothing
+   * @param query World name as typed by the user
+   * @param options Maximum number of suggestions and minimum score, plus request options
+   * @returns Promise resolving to worlds with their scores from 0 to 1, best first
+   */
+  async suggestWorlds(
+    query: string,
+    options: SuggestOptions & RequestOptions = {},
+  ): Promise<WorldSuggestion[]> {
+    const dataCenters = await this.fetchWorldStatus(options);
+    const worlds = dataCenters.flatMap((dc) =>
+      dc.worlds.map((world) => ({
+        name: world.name,
+        dataCenter: dc.name,
+        region: dc.region,
+      })),
+    );
+
+    return rankByName(query, worlds, (world) => world.name, options).map(
+      ({ item, score }) => ({ ...item, score }),
+    );
+  }
+
+  /**
+   * Suggest data centers whose names are close to what the user typed
+   * @param query Data center name as typed by the user
+   * @param options Maximum number of suggestions and minimum score, plus request options
+   * @returns Promise resolving to data centers with their scores from 0 to 1, best first
+   */
+  async suggestDataCenters(
+    query: string,
+    options: SuggestOptions & RequestOptions = {},
+  ): Promise<DataCenterSuggestion[]> {
+    const dataCenters = await this.fetchWorldStatus(options);
+
+    return rankByName(query, dataCenters, (dc) => dc.name, options).map(
+      ({ item, score }) => ({ name: item.name, region: item.region, score }),
+    );
   }
 
   /**
    * Get worlds by region
    * @param region The region to filter by
+   * @param options Optional AbortSignal and timeout override for this call
    * @returns Promise resolving to array of data centers in the region
    */
-  async getWorldsByRegion(region: Region): Promise<DataCenter[]> {
-    const dataCenters = await this.fetchWorldStatus();
+  async getWorldsByRegion(
+    region: Region,
+    options: RequestOptions = {},
+  ): Promise<DataCenter[]> {
+    const dataCenters = await this.fetchWorldStatus(options);
     return dataCenters.filter((dc) => dc.region === region);
   }
 
+  /**
+   * Get maintenance that is scheduled or in progress, from the notices on the
+   * Lodestone maintenance news list. Notices are cached separately from world
+   * status, for the same expiration.
+   * @param options Optional AbortSignal and timeout override for this call
+   * @returns Promise resolving to maintenance windows that haven't ended, soonest first
+   */
+  async getUpcomingMaintenance(
+    options: RequestOptions = {},
+  ): Promise<MaintenanceWindow[]> {
+    const windows =
+      this.maintenanceCache.get() ??
+      (await this.maintenanceInFlight.run(
+        (signal) =>
+          this.fetchMaintenance({ signal, timeoutMs: options.timeoutMs }),
+        options.signal,
+        (reason) => new RequestAbortedError(this.maintenanceNewsUrl, reason),
+      ));
+
+    // Filter on every call so that cached windows drop out once they end
+    const now = Date.now();
+    return windows.filter(
+      (window) => (window.end ?? window.start).getTime() > now,
+    );
+  }
+
+  /**
+   * Scrapes the newest maintenance notices and caches every window in them
+   */
+  private async fetchMaintenance(
+    options: RequestOptions,
+  ): Promise<MaintenanceWindow[]> {
+    log("Fetching maintenance notices from %s", this.maintenanceNewsUrl);
+
+    const pages: Array<{ url: string; html: string }> = [];
+    try {
+      const listHtml = await this.fetchPage(this.maintenanceNewsUrl, options);
+      const notices = parseMaintenanceList(
+        listHtml,
+        this.maintenanceNewsUrl,
+      ).slice(0, MAINTENANCE_NOTICE_LIMIT);
+
+      // One notice at a time to go easy on Lodestone
+      for (const notice of notices) {
+        pages.push({
+          url: notice.url,
+          html: await this.fetchPage(notice.url, options),
+        });
+      }
+    } catch (error) {
+      throw this.toLodestoneError(
+        error,
+        "fetch",
+        this.maintenanceNewsUrl,
+        "maintenance notices",
+      );
+    }
+
+    const windows: MaintenanceWindow[] = [];
+    for (const page of pages) {
+      try {
+        const window = parseMaintenanceNotice(page.html, page.url);
+        if (window) {
+          windows.push(window);
+        }
+      } catch (error) {
+        throw this.toLodestoneError(
+          error,
+          "parse",
+          page.url,
+          "maintenance notices",
+        );
+      }
+    }
+    windows.sort((a, b) => a.start.getTime() - b.start.getTime());
+
+    this.maintenanceCache.set(windows);
+    log(
+      "Cached %d maintenance windows from %d notices",
+      windows.length,
+      pages.length,
+    );
+    return windows;
+  }
+
+  /**
+   * Start polling world status and emitting snapshots and changes
+   * @param options Polling interval (default: cache expiration), error backoff, stop signal and clock
+   * @returns A running watcher; call stop() on it to shut it down
+   */
+  watch(options: WatchOptions = {}): WorldStatusWatcher {
+    const watcher = new WorldStatusWatcher(this, options);
+    watcher.start();
+    return watcher;
+  }
+
   /**
    * Clear the cache to force fresh data on next request
    */
   clearCache(): void {
     this.cache.clear();
+    this.maintenanceCache.clear();
+
+    if (this.storage) {
+      // Skip restoring until the next successful fetch replaces the entry
+      this.storageCleared = true;
+      this.storage
+        .delete(this.storageKey)
+        .catch((error) =>
+          log(
+            "Failed to delete from storage: %s",
+            error instanceof Error ? error.message : "Unknown error",
+          ),
+        );
+    }
   }
 
   /**
@@ -0,0 +1,243 @@
+import debug from "debug";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { systemClock } from "../utils/index.js";
+import { POPULATION_LEVELS, WORLD_STATUS_TYPES } from "../types/index.js";
+import type {
+  Clock,
+  DataCenter,
+  MetricsOptions,
+  RequestOptions,
+  WorldStatusSource,
+} from "../types/index.js";
+
+const log = debug("lodestone-world-status:metrics");
+
+/**
+ * Content type of the Prometheus text exposition format
+ */
+export const PROMETHEUS_CONTENT_TYPE =
+  "text/plain; version=0.0.4; charset=utf-8";
+
+type MetricType = "gauge" | "counter";
+
+interface Sample {
+  readonly labels?: Readonly<Record<string, string>>;
+  readonly value: number;
+}
+
+/**
+ * Formats world status as Prometheus gauges
+ *
+ * Status and population are exported as state sets: one series per possible
+ * value, set to 1 for the current value and 0 for the rest, so that alerts
+ * can match on `status="maintenance"` without knowing every other value.
+ *
+ * @param dataCenters Data centers to export
+ * @param prefix Prepended to every metric name
+ * @returns Metrics in the Prometheus text exposition format
+ */
+export function formatWorldStatusMetrics(
+  dataCenters: readonly DataCenter[],
+  prefix: string = "lodestone",
+): string {
+  const worlds = dataCenters.flatMap((dc) =>
+    dc.worlds.map((world) => ({
+      world,
+      labels: { world: world.name, data_center: dc.name, region: dc.region },
+    })),
+  );
+
+  return [
+    formatMetric(
+      `${prefix}_world_status`,
+      "gauge",
+      "Whether the world is in the given status (1) or not (0)",
+      worlds.flatMap(({ world, labels }) =>
+        WORLD_STATUS_TYPES.map((status) => ({
+          labels: { ...labels, status },
+          value: world.status === status ? 1 : 0,
+        })),
+      ),
+    ),
+    formatMetric(
+      `${prefix}_world_population`,
+      "gauge",
+      "Whether the world is at the given population level (1) or not (0)",
+      worlds.flatMap(({ world, labels }) =>
+        POPULATION_LEVELS.map((population) => ({
+          labels: { ...labels, population },
+          value: world.population === population ? 1 : 0,
+        })),
+      ),
+    ),
+    formatMetric(
+      `${prefix}_world_character_creation_available`,
+      "gauge",
+      "Whether new characters can be created on the world",
+      worlds.map(({ world, labels }) => ({
+        labels,
+        value: world.newCharacterCreation ? 1 : 0,
+      })),
+    ),
+  ].join("");
+}
+
+/**
+ * Collects world status and scrape metrics from a client for Prometheus
+ *
+ * Each `collect()` fetches world status through the client, so scrapes are
+ * served from its cache and only reach Lodestone once the cache expires.
+ */
+export class WorldStatusMetrics {
+  private readonly source: WorldStatusSource;
+  private readonly prefix: string;
+  private readonly clock: Clock;
+  private scrapes: number = 0;
+  private failures: number = 0;
+
+  /**
+   * @param source Client (or other source) to fetch world status from
+   * @param options Metric name prefix and clock
+   */
+  constructor(source: WorldStatusSource, options: MetricsOptions = {}) {
+    const prefix = options.prefix ?? "lodestone";
+    if (!/^[a-zA-Z_:][a-zA-Z0-9_:]*$/.test(prefix)) {
+      throw new Error(
+        `Metrics prefix must be a valid Prometheus metric name, got: ${prefix}`,
+      );
+    }
+
+    this.source = source;
+    this.prefix = prefix;
+    this.clock = options.clock ?? systemClock;
+  }
+
+  /**
+   * Fetches world status and formats it along with scrape metrics
+   *
+   * A failed fetch is recorded in the scrape metrics rather than thrown, so
+   * the exporter keeps answering while Lodestone is unreachable.
+   *
+   * @param options Optional AbortSignal and timeout override for the fetch
+   * @returns Metrics in the Prometheus text exposition format
+   */
+  async collect(options: RequestOptions = {}): Promise<string> {
+    const startedAt = this.clock.now();
+    let dataCenters: DataCenter[] | null = null;
+    try {
+      dataCenters = await this.source.getAllWorlds(options);
+    } catch (error) {
+      this.failures++;
+      log(
+        "Failed to fetch world status for metrics: %s",
+        error instanceof Error ? error.message : "Unknown error",
+      );
+    }
+    const durationSeconds = (this.clock.now() - startedAt) / 1000;
+    this.scrapes++;
+
+    const prefix = this.prefix;
+    const metrics = [
+      formatMetric(
+        `${prefix}_scrape_success`,
+        "gauge",
+        "Whether the last world status fetch succeeded",
+        [{ value: dataCenters ? 1 : 0 }],
+      ),
+      formatMetric(
+        `${prefix}_scrape_duration_seconds`,
+        "gauge",
+        "Time taken by the last world status fetch, including cache lookups",
+        [{ value: durationSeconds }],
+      ),
+      formatMetric(
+        `${prefix}_scrapes_total`,
+        "counter",
+        "World status fetches made for metrics",
+        [{ value: this.scrapes }],
+      ),
+      formatMetric(
+        `${prefix}_scrape_failures_total`,
+        "counter",
+        "World status fetches for metrics that failed",
+        [{ value: this.failures }],
+      ),
+    ];
+
+    const cacheStats = this.source.getCacheStats?.();
+    if (cacheStats) {
+      metrics.push(
+        formatMetric(
+          `${prefix}_cache_hits_total`,
+          "counter",
+          "World status lookups served from a fresh cache",
+          [{ value: cacheStats.hits }],
+        ),
+        formatMetric(
+          `${prefix}_cache_misses_total`,
+          "counter",
+          "World status lookups that found the cache empty or expired",
+          [{ value: cacheStats.misses }],
+        ),
+      );
+    }
+
+    if (dataCenters) {
+      metrics.push(formatWorldStatusMetrics(dataCenters, prefix));
+    }
+    return metrics.join("");
+  }
+}
+
+/**
+ * Creates a request handler for `node:http` that serves metrics on GET
+ * @param metrics Metrics collector to serve
+ * @returns Handler to pass to `http.createServer()` or call from a router
+ */
+export function createMetricsHandler(
+  metrics: WorldStatusMetrics,
+): (request: IncomingMessage, response: ServerResponse) => Promise<void> {
+  return async (request, response) => {
+    if (request.method !== "GET" && request.method !== "HEAD") {
+      response.writeHead(405, { Allow: "GET, HEAD" }).end();
+      return;
+    }
+
+    const body = await metrics.collect();
+    response.writeHead(200, {
+      "Content-Type": PROMETHEUS_CONTENT_TYPE,
+      "Content-Length": Buffer.byteLength(body),
+    });
+    response.end(request.method === "HEAD" ? undefined : body);
+  };
+}
+
+function formatMetric(
+  name: string,
+  type: MetricType,
+  help: string,
+  samples: readonly Sample[],
+): string {
+  const lines = [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+  for (const { labels, value } of samples) {
+    lines.push(`${name}${formatLabels(labels)} ${value}`);
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+function formatLabels(labels?: Readonly<Record<string, string>>): string {
+  if (!labels) {
+    return "";
+  }
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${escapeLabelValue(value)}"`,
+  );
+  return `{${pairs.join(",")}}`;
+}
+
+function escapeLabelValue(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
@@ -0,0 +1,185 @@
+import type { DataCenterLocation, Region } from "../types/index.js";
+
+/**
+ * Date the registry was last checked against Lodestone; bump it whenever
+ * worlds or data centers change
+ */
+export const WORLD_REGISTRY_VERSION = "2025-04-01";
+
+// Every region's data centers are hosted at a single site
+export const REGION_LOCATIONS: Readonly<
+  Record<Exclude<Region, "unknown">, DataCenterLocation>
+> = {
+  na: { city: "Sacramento", country: "United States" },
+  eu: { city: "London", country: "United Kingdom" },
+  oc: { city: "Sydney", country: "Australia" },
+  jp: { city: "Tokyo", country: "Japan" },
+};
+
+export const DATA_CENTERS: ReadonlyArray<{
+  readonly name: string;
+  readonly region: Exclude<Region, "unknown">;
+  readonly worlds: readonly string[];
+}> = [
+  {
+    name: "Aether",
+    region: "na",
+    worlds: [
+      "Adamantoise",
+      "Cactuar",
+      "Faerie",
+      "Gilgamesh",
+      "Jenova",
+      "Midgardsormr",
+      "Sargatanas",
+      "Siren",
+    ],
+  },
+  {
+    name: "Crystal",
+    region: "na",
+    worlds: [
+      "Balmung",
+      "Brynhildr",
+      "Coeurl",
+      "Diabolos",
+      "Goblin",
+      "Malboro",
+      "Mateus",
+      "Zalera",
+    ],
+  },
+  {
+    name: "Dynamis",
+    region: "na",
+    worlds: [
+      "Cuchulainn",
+      "Golem",
+      "Halicarnassus",
+      "Kraken",
+      "Maduin",
+      "Marilith",
+      "Rafflesia",
+      "Seraph",
+    ],
+  },
+  {
+    name: "Primal",
+    region: "na",
+    worlds: [
+      "Behemoth",
+      "Excalibur",
+      "Exodus",
+      "Famfrit",
+      "Hyperion",
+      "Lamia",
+      "Leviathan",
+      "Ultros",
+    ],
+  },
+  {
+    name: "Chaos",
+    region: "eu",
+    worlds: [
+      "Cerberus",
+      "Louisoix",
+      "Moogle",
+      "Omega",
+      "Phantom",
+      "Ragnarok",
+      "Sagittarius",
+      "Spriggan",
+    ],
+  },
+  {
+    name: "Light",
+    region: "eu",
+    worlds: [
+      "Alpha",
+      "Lich",
+      "Odin",
+      "Phoenix",
+      "Raiden",
+      "Shiva",
+      "Twintania",
+      "Zodiark",
+    ],
+  },
+  {
+    name: "Shadow",
+    region: "eu",
+    worlds: ["Innocence", "Pixie", "Titania", "Tycoon"],
+  },
+  {
+    name: "Materia",
+    region: "oc",
+    worlds: ["Bismarck", "Ravana", "Sephirot", "Sophia", "Zurvan"],
+  },
+  {
+    name: "Elemental",
+    region: "jp",
+    worlds: [
+      "Aegis",
+      "Atomos",
+      "Carbuncle",
+      "Garuda",
+      "Gungnir",
+      "Kujata",
+      "Tonberry",
+      "Typhon",
+    ],
+  },
+  {
+    name: "Gaia",
+    region: "jp",
+    worlds: [
+      "Alexander",
+      "Bahamut",
+      "Durandal",
+      "Fenrir",
+      "Ifrit",
+      "Ridill",
+      "Tiamat",
+      "Ultima",
+    ],
+  },
+  {
+    name: "Mana",
+    region: "jp",
+    worlds: [
+      "Anima",
+      "Asura",
+      "Chocobo",
+      "Hades",
+      "Ixion",
+      "Masamune",
+      "Pandaemonium",
+      "Titan",
+    ],
+  },
+  {
+    name: "Meteor",
+    region: "jp",
+    worlds: [
+      "Belias",
+      "Mandragora",
+      "Ramuh",
+      "Shinryu",
+      "Unicorn",
+      "Valefor",
+      "Yojimbo",
+      "Zeromus",
+    ],
+  },
+];
+
+// Short names and alternative spellings, keyed by world name
+export const WORLD_ALIASES: Readonly<Record<string, readonly string[]>> = {
+  Cuchulainn: ["Cuchulain"],
+  Gilgamesh: ["Gilga"],
+  Halicarnassus: ["Hali"],
+  Midgardsormr: ["Midgard", "Midgardsomr"],
+  Pandaemonium: ["Pandemonium"],
+  Sagittarius: ["Sagi"],
+  Sargatanas: ["Sarg", "Sarga"],
+};
@@ -0,0 +1,142 @@
+import { normalizeLookupName } from "../utils/fuzzy.js";
+import type {
+  DataCenter,
+  DataCenterName,
+  RegistryDataCenter,
+  RegistryValidation,
+  RegistryWorld,
+  WorldLocation,
+  WorldRegistry,
+} from "../types/index.js";
+import { createDataCenterName, createWorldName } from "../types/index.js";
+import {
+  DATA_CENTERS,
+  REGION_LOCATIONS,
+  WORLD_ALIASES,
+  WORLD_REGISTRY_VERSION,
+} from "./data.js";
+
+export { WORLD_REGISTRY_VERSION };
+
+/**
+ * Every known world and data center, for lookups without a network call
+ */
+export const WORLD_REGISTRY: WorldRegistry = createWorldRegistry();
+
+function createWorldRegistry(): WorldRegistry {
+  const dataCenters: RegistryDataCenter[] = DATA_CENTERS.map((dc) => ({
+    name: createDataCenterName(dc.name),
+    region: dc.region,
+    location: REGION_LOCATIONS[dc.region],
+    worlds: dc.worlds.map(createWorldName),
+  }));
+  const worlds: RegistryWorld[] = dataCenters.flatMap((dc) =>
+    dc.worlds.map((name) => ({
+      name,
+      dataCenter: dc.name,
+      region: dc.region,
+      location: dc.location,
+      aliases: WORLD_ALIASES[name] ?? [],
+    })),
+  );
+
+  return { version: WORLD_REGISTRY_VERSION, dataCenters, worlds };
+}
+
+/**
+ * Looks up a world by name or alias, ignoring case, accents and punctuation
+ * @param name World name, e.g. "Zalera" or "Midgard"
+ * @param registry Registry to search (default: the bundled registry)
+ * @returns The world with its data center, region and location, or null if unknown
+ */
+export function findRegistryWorld(
+  name: string,
+  registry: WorldRegistry = WORLD_REGISTRY,
+): RegistryWorld | null {
+  const normalized = normalizeLookupName(name);
+  return (
+    registry.worlds.find((world) =>
+      [world.name, ...world.aliases].some(
+        (candidate) => normalizeLookupName(candidate) === normalized,
+      ),
+    ) ?? null
+  );
+}
+
+/**
+ * Looks up a data center by name, ignoring case, accents and punctuation
+ * @param name Data center name, e.g. "Crystal"
+ * @param registry Registry to search (default: the bundled registry)
+ * @returns The data center with its region, location and worlds, or null if unknown
+ */
+export function findRegistryDataCenter(
+  name: string,
+  registry: WorldRegistry = WORLD_REGISTRY,
+): RegistryDataCenter | null {
+  const normalized = normalizeLookupName(name);
+  return (
+    registry.dataCenters.find(
+      (dc) => normalizeLookupName(dc.name) === normalized,
+    ) ?? null
+  );
+}
+
+/**
+ * Compares scraped world status with the registry, to spot new worlds and
+ * data centers, worlds that moved, and worlds missing from a partial scrape
+ * @param dataCenters Scraped world status
+ * @param registry Registry to compare with (default: the bundled registry)
+ * @returns Every difference found
+ */
+export function validateWorldStatus(
+  dataCenters: readonly DataCenter[],
+  registry: WorldRegistry = WORLD_REGISTRY,
+): RegistryValidation {
+  const unknownWorlds: WorldLocation[] = [];
+  const unknownDataCenters: string[] = [];
+  const movedWorlds: Array<
+    WorldLocation & { expectedDataCenter: DataCenterName }
+  > = [];
+  const seen = new Set<RegistryWorld>();
+
+  for (const dc of dataCenters) {
+    if (!findRegistryDataCenter(dc.name, registry)) {
+      unknownDataCenters.push(dc.name);
+    }
+
+    for (const world of dc.worlds) {
+      const known = findRegistryWorld(world.name, registry);
+      if (!known) {
+        unknownWorlds.push({ world: world.name, dataCenter: dc.name });
+        continue;
+      }
+
+      seen.add(known);
+      if (
+        normalizeLookupName(known.dataCenter) !== normalizeLookupName(dc.name)
+      ) {
+        movedWorlds.push({
+          world: world.name,
+          dataCenter: dc.name,
+          expectedDataCenter: known.dataCenter,
+        });
+      }
+    }
+  }
+
+  const missingWorlds = registry.worlds
+    .filter((world) => !seen.has(world))
+    .map((world) => ({ world: world.name, dataCenter: world.dataCenter }));
+
+  return {
+    valid:
+      unknownWorlds.length === 0 &&
+      unknownDataCenters.length === 0 &&
+      movedWorlds.length === 0 &&
+      missingWorlds.length === 0,
+    unknownWorlds,
+    unknownDataCenters,
+    movedWorlds,
+    missingWorlds,
+  };
+}
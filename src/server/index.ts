@@ -0,0 +1,217 @@
+import debug from "debug";
+import { createServer } from "node:http";
+import type { IncomingMessage, Server, ServerResponse } from "node:http";
+import {
+  LodestoneError,
+  RequestAbortedError,
+  RequestTimeoutError,
+} from "../errors/index.js";
+import type { LodestoneWorldStatus } from "../index.js";
+import type {
+  NameSuggestion,
+  Region,
+  RequestOptions,
+  WorldStatusServerOptions,
+} from "../types/index.js";
+import { LOOKUP_REGIONS } from "../types/index.js";
+
+const log = debug("lodestone-world-status:server");
+
+type RouteResult = { readonly status: number; readonly body: unknown };
+
+type Route = (
+  client: LodestoneWorldStatus,
+  param: string | undefined,
+  options: RequestOptions,
+) => Promise<RouteResult>;
+
+// A Map, so that names like "constructor" or "__proto__" aren't routes
+const ROUTES: ReadonlyMap<string, Route> = new Map(
+  Object.entries<Route>({
+    worlds: async (client, name, options) => {
+      if (name === undefined) {
+        return { status: 200, body: await client.getAllWorldsFlat(options) };
+      }
+      const world = await client.checkWorldStatus(name, options);
+      return world
+        ? { status: 200, body: world }
+        : notFound(
+            `World not found: ${name}`,
+            await client.suggestWorlds(name, options),
+          );
+    },
+    datacenters: async (client, name, options) => {
+      if (name === undefined) {
+        return { status: 200, body: await client.getAllWorlds(options) };
+      }
+      const dataCenter = await client.getDataCenter(name, options);
+      return dataCenter
+        ? { status: 200, body: dataCenter }
+        : notFound(
+            `Data center not found: ${name}`,
+            await client.suggestDataCenters(name, options),
+          );
+    },
+    regions: async (client, region, options) => {
+      if (!LOOKUP_REGIONS.includes(region as Region)) {
+        return notFound(`Unknown region: ${region ?? ""}`);
+      }
+      return {
+        status: 200,
+        body: await client.getWorldsByRegion(region as Region, options),
+      };
+    },
+  }),
+);
+
+/**
+ * Creates a `node:http` request handler serving world status as JSON
+ *
+ * Routes: `/worlds`, `/worlds/:name`, `/datacenters`, `/datacenters/:name`
+ * and `/regions/:region`. Successful responses carry a `Cache-Control`
+ * max-age matching the time left before the client's cache expires, so
+ * downstream caches and services refetch when the data actually changes.
+ * Unknown world and data center names get a 404 whose `suggestions` list
+ * the closest known names. The Lodestone request is cancelled if the caller
+ * disconnects.
+ *
+ * @param client Client to serve world status from; its cache is shared by every caller
+ * @param options Path prefix to mount the routes under
+ * @returns Handler to pass to `http.createServer()` or call from a router
+ */
+export function createWorldStatusHandler(
+  client: LodestoneWorldStatus,
+  options: WorldStatusServerOptions = {},
+): (request: IncomingMessage, response: ServerResponse) => Promise<void> {
+  const basePath = (options.basePath ?? "").replace(/\/+$/, "");
+
+  return async (request, response) => {
+    if (request.method !== "GET" && request.method !== "HEAD") {
+      response.setHeader("Allow", "GET, HEAD");
+      sendJson(request, response, 405, { error: "Method not allowed" });
+      return;
+    }
+
+    const { pathname } = new URL(request.url ?? "/", "http://localhost");
+    const segments = matchBasePath(pathname, basePath);
+    const route = segments && ROUTES.get(segments[0]);
+    if (!segments || !route || segments.length > 2) {
+      sendJson(request, response, 404, { error: "Not found" });
+      return;
+    }
+
+    let param: string | undefined;
+    try {
+      param =
+        segments[1] === undefined ? undefined : decodeURIComponent(segments[1]);
+    } catch {
+      sendJson(request, response, 400, { error: "Malformed path" });
+      return;
+    }
+
+    // Stop the fetch if the caller goes away before we respond
+    const controller = new AbortController();
+    response.once("close", () => controller.abort());
+
+    try {
+      const { status, body } = await route(client, param, {
+        signal: controller.signal,
+      });
+      sendJson(request, response, status, body, cacheHeaders(client, status));
+    } catch (error) {
+      if (error instanceof RequestAbortedError) {
+        log("Caller disconnected from %s", pathname);
+        return;
+      }
+
+      log(
+        "Failed to serve %s: %s",
+        pathname,
+        error instanceof Error ? error.message : "Unknown error",
+      );
+      // Only library errors describe Lodestone; anything else is a bug here
+      // whose message isn't meant for callers
+      if (!(error instanceof LodestoneError)) {
+        sendJson(request, response, 500, { error: "Internal server error" });
+        return;
+      }
+      sendJson(
+        request,
+        response,
+        error instanceof RequestTimeoutError ? 504 : 502,
+        { error: error.message },
+      );
+    }
+  };
+}
+
+/**
+ * Creates an HTTP server serving world status as JSON; call `listen()` to start it
+ * @param client Client to serve world status from
+ * @param options Path prefix to mount the routes under
+ * @returns Server that has not started listening yet
+ */
+export function createWorldStatusServer(
+  client: LodestoneWorldStatus,
+  options: WorldStatusServerOptions = {},
+): Server {
+  return createServer(createWorldStatusHandler(client, options));
+}
+
+function notFound(
+  message: string,
+  suggestions?: readonly NameSuggestion[],
+): RouteResult {
+  return {
+    status: 404,
+    body: suggestions
+      ? { error: message, suggestions: suggestions.map(({ name }) => name) }
+      : { error: message },
+  };
+}
+
+/**
+ * Strips the base path and splits the rest into non-empty segments
+ * @returns Segments, or null if the path is outside the base path
+ */
+function matchBasePath(pathname: string, basePath: string): string[] | null {
+  if (
+    basePath &&
+    pathname !== basePath &&
+    !pathname.startsWith(`${basePath}/`)
+  ) {
+    return null;
+  }
+  return pathname.slice(basePath.length).split("/").filter(Boolean);
+}
+
+function cacheHeaders(
+  client: LodestoneWorldStatus,
+  status: number,
+): Record<string, string> {
+  const { timeUntilExpirationMs } = client.getCacheStats();
+  if (status !== 200 || timeUntilExpirationMs === null) {
+    return { "Cache-Control": "no-store" };
+  }
+
+  // No Age header: max-age is already the remaining lifetime, not the total
+  return {
+    "Cache-Control": `public, max-age=${Math.floor(timeUntilExpirationMs / 1000)}`,
+  };
+}
+
+function sendJson(
+  request: IncomingMessage,
+  response: ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = { "Cache-Control": "no-store" },
+): void {
+  const json = JSON.stringify(body);
+  response.writeHead(status, {
+    ...headers,
+    "Content-Type": "application/json; charset=utf-8",
+    "Content-Length": Buffer.byteLength(json),
+  });
+  response.end(request.method === "HEAD" ? undefined : json);
+}
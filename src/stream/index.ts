@@ -0,0 +1,249 @@
+import debug from "debug";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { Duplex } from "node:stream";
+import { normalizeWorldName } from "../utils/index.js";
+import type { WorldStatusWatcher } from "../watcher/index.js";
+import type {
+  DataCenter,
+  WorldStatusChange,
+  WorldStatusStreamChange,
+  WorldStatusStreamMessage,
+  WorldStatusStreamOptions,
+} from "../types/index.js";
+import { acceptWebSocket, WebSocketConnection } from "./websocket.js";
+
+const log = debug("lodestone-world-status:stream");
+
+interface Subscriber {
+  send(message: WorldStatusStreamMessage): void;
+  heartbeat(): void;
+  close(): void;
+  // The snapshot this subscriber was last brought up to date with
+  snapshot: readonly DataCenter[] | null;
+}
+
+/**
+ * Pushes world status changes from a watcher to browsers over Server-Sent
+ * Events or WebSocket
+ *
+ * Every subscriber receives a `snapshot` message with the full world list as
+ * soon as one is available, followed by a `change` message for each world
+ * that changes, carrying its state before and after. Data center additions
+ * and removals arrive as changes for each of their worlds.
+ */
+export class WorldStatusStream {
+  private readonly watcher: WorldStatusWatcher;
+  private readonly heartbeatMs: number;
+  private readonly subscribers = new Set<Subscriber>();
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+
+  private readonly onSnapshot = (snapshot: readonly DataCenter[]) => {
+    for (const subscriber of this.subscribers) {
+      // Up-to-date subscribers get the changes instead
+      if (subscriber.snapshot === null) {
+        this.sendSnapshot(subscriber, snapshot);
+      }
+    }
+  };
+
+  private readonly onChanges = (
+    changes: WorldStatusChange[],
+    snapshot: readonly DataCenter[],
+  ) => {
+    const messages = toStreamChanges(changes);
+    for (const subscriber of this.subscribers) {
+      // Subscribers that just received this snapshot already have the changes
+      if (subscriber.snapshot === snapshot) {
+        continue;
+      }
+      if (subscriber.snapshot === null) {
+        this.sendSnapshot(subscriber, snapshot);
+        continue;
+      }
+      for (const message of messages) {
+        subscriber.send(message);
+      }
+      subscriber.snapshot = snapshot;
+    }
+  };
+
+  /**
+   * @param watcher Watcher whose snapshots and changes are streamed; start it separately
+   * @param options Keep-alive interval
+   */
+  constructor(
+    watcher: WorldStatusWatcher,
+    options: WorldStatusStreamOptions = {},
+  ) {
+    const heartbeatMs = options.heartbeatMs ?? 15 * 1000;
+    if (heartbeatMs <= 0 || !Number.isInteger(heartbeatMs)) {
+      throw new Error(
+        `Stream heartbeat must be a positive integer, got: ${heartbeatMs}`,
+      );
+    }
+
+    this.watcher = watcher;
+    this.heartbeatMs = heartbeatMs;
+    watcher.on("snapshot", this.onSnapshot);
+    watcher.on("changes", this.onChanges);
+  }
+
+  /**
+   * Serves the stream as Server-Sent Events on an HTTP response
+   * @param request Incoming request, used to detect disconnects
+   * @param response Response to stream events to; it stays open until the client leaves
+   */
+  handleEventStream(request: IncomingMessage, response: ServerResponse): void {
+    response.writeHead(200, {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    // Let the client see the connection open before the first event
+    response.flushHeaders();
+
+    this.subscribe(request, {
+      send: (message) =>
+        response.write(
+          `event: ${message.type}\ndata: ${JSON.stringify(message)}\n\n`,
+        ),
+      heartbeat: () => response.write(": keep-alive\n\n"),
+      close: () => response.end(),
+      snapshot: null,
+    });
+  }
+
+  /**
+   * Serves the stream over WebSocket; call from the server's `upgrade` event
+   * @param request Upgrade request
+   * @param socket Socket from the `upgrade` event
+   * @param head First packet of the upgraded stream, from the `upgrade` event
+   */
+  handleUpgrade(request: IncomingMessage, socket: Duplex, head: Buffer): void {
+    if (!acceptWebSocket(request, socket)) {
+      log("Rejected invalid WebSocket upgrade");
+      return;
+    }
+
+    const connection = new WebSocketConnection(socket, () =>
+      this.unsubscribe(subscriber),
+    );
+    const subscriber: Subscriber = {
+      send: (message) => connection.send(JSON.stringify(message)),
+      heartbeat: () => connection.ping(),
+      close: () => connection.close(),
+      snapshot: null,
+    };
+    this.subscribe(null, subscriber);
+    if (head.length > 0) {
+      connection.receive(head);
+    }
+  }
+
+  /**
+   * Number of connected subscribers
+   */
+  getSubscriberCount(): number {
+    return this.subscribers.size;
+  }
+
+  /**
+   * Disconnects every subscriber and stops listening to the watcher
+   */
+  close(): void {
+    this.watcher.off("snapshot", this.onSnapshot);
+    this.watcher.off("changes", this.onChanges);
+    for (const subscriber of [...this.subscribers]) {
+      this.unsubscribe(subscriber);
+      subscriber.close();
+    }
+    log("Stream closed");
+  }
+
+  private subscribe(
+    request: IncomingMessage | null,
+    subscriber: Subscriber,
+  ): void {
+    this.subscribers.add(subscriber);
+    request?.once("close", () => this.unsubscribe(subscriber));
+    log("Subscriber connected (%d total)", this.subscribers.size);
+
+    const snapshot = this.watcher.getSnapshot();
+    if (snapshot) {
+      this.sendSnapshot(subscriber, snapshot);
+    }
+
+    if (!this.heartbeatTimer) {
+      this.heartbeatTimer = setInterval(() => {
+        for (const subscriber of this.subscribers) {
+          subscriber.heartbeat();
+        }
+      }, this.heartbeatMs);
+      this.heartbeatTimer.unref?.();
+    }
+  }
+
+  private unsubscribe(subscriber: Subscriber): void {
+    if (!this.subscribers.delete(subscriber)) {
+      return;
+    }
+    log("Subscriber disconnected (%d remaining)", this.subscribers.size);
+
+    if (this.subscribers.size === 0 && this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  private sendSnapshot(
+    subscriber: Subscriber,
+    snapshot: readonly DataCenter[],
+  ): void {
+    if (subscriber.snapshot === snapshot) {
+      return;
+    }
+    subscriber.send({ type: "snapshot", dataCenters: snapshot });
+    subscriber.snapshot = snapshot;
+  }
+}
+
+/**
+ * Collapses a batch of changes into one message per affected world
+ * @param changes Changes from a single snapshot comparison
+ * @returns Messages carrying each world's state before and after
+ */
+export function toStreamChanges(
+  changes: readonly WorldStatusChange[],
+): WorldStatusStreamChange[] {
+  const messages = new Map<string, WorldStatusStreamChange>();
+
+  for (const change of changes) {
+    if (
+      change.type === "datacenter-added" ||
+      change.type === "datacenter-removed"
+    ) {
+      continue;
+    }
+
+    const key = `${normalizeWorldName(change.dataCenter)}/${normalizeWorldName(change.world)}`;
+    const previous =
+      change.type === "world-added" || change.type === "world-removed"
+        ? change.before
+        : change.previous;
+    const current =
+      change.type === "world-added" || change.type === "world-removed"
+        ? change.after
+        : change.current;
+
+    messages.set(key, {
+      type: "change",
+      world: change.world,
+      dataCenter: change.dataCenter,
+      region: change.region,
+      previous: messages.get(key)?.previous ?? previous,
+      current,
+    });
+  }
+
+  return [...messages.values()];
+}
@@ -0,0 +1,215 @@
+import { createHash } from "node:crypto";
+import type { IncomingMessage } from "node:http";
+import type { Duplex } from "node:stream";
+
+// Defined by RFC 6455 for computing Sec-WebSocket-Accept
+const WEBSOCKET_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+// Clients only send control frames here, so anything larger is abuse
+const MAX_FRAME_BYTES = 64 * 1024;
+
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+/**
+ * Minimal server side of a WebSocket connection (RFC 6455) that sends text
+ * messages and answers pings and close frames. Incoming data frames are
+ * ignored.
+ */
+export class WebSocketConnection {
+  private readonly socket: Duplex;
+  private buffered: Buffer = Buffer.alloc(0);
+  private closed: boolean = false;
+
+  constructor(socket: Duplex, onClose: () => void) {
+    this.socket = socket;
+    socket.on("data", (data: Buffer) => this.receive(data));
+    socket.once("close", () => {
+      this.closed = true;
+      onClose();
+    });
+    socket.on("error", () => socket.destroy());
+  }
+
+  /**
+   * Sends a text message
+   */
+  send(text: string): void {
+    this.writeFrame(OPCODE_TEXT, Buffer.from(text, "utf8"));
+  }
+
+  /**
+   * Sends a ping so that idle connections are not dropped by proxies
+   */
+  ping(): void {
+    this.writeFrame(OPCODE_PING, Buffer.alloc(0));
+  }
+
+  /**
+   * Sends a close frame and ends the connection
+   * @param code Close status code (default: 1001, going away)
+   */
+  close(code: number = 1001): void {
+    if (this.closed) {
+      return;
+    }
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code);
+    this.writeFrame(OPCODE_CLOSE, payload);
+    this.closed = true;
+    this.socket.end();
+  }
+
+  /**
+   * Processes bytes from the client, which may hold partial or several frames
+   */
+  receive(data: Buffer): void {
+    this.buffered = Buffer.concat([this.buffered, data]);
+
+    for (;;) {
+      const frame = readFrame(this.buffered);
+      if (frame === null) {
+        return;
+      }
+      if (frame === "invalid") {
+        this.close(1002);
+        return;
+      }
+      if (frame === "too-large") {
+        this.close(1009);
+        return;
+      }
+
+      this.buffered = this.buffered.subarray(frame.length);
+      switch (frame.opcode) {
+        case OPCODE_PING:
+          this.writeFrame(OPCODE_PONG, frame.payload);
+          break;
+        case OPCODE_CLOSE:
+          this.close(
+            frame.payload.length >= 2 ? frame.payload.readUInt16BE(0) : 1000,
+          );
+          return;
+      }
+    }
+  }
+
+  private writeFrame(opcode: number, payload: Buffer): void {
+    if (this.closed) {
+      return;
+    }
+
+    let header: Buffer;
+    if (payload.length < 126) {
+      header = Buffer.from([0x80 | opcode, payload.length]);
+    } else if (payload.length < 0x10000) {
+      header = Buffer.alloc(4);
+      header[0] = 0x80 | opcode;
+      header[1] = 126;
+      header.writeUInt16BE(payload.length, 2);
+    } else {
+      header = Buffer.alloc(10);
+      header[0] = 0x80 | opcode;
+      header[1] = 127;
+      header.writeBigUInt64BE(BigInt(payload.length), 2);
+    }
+    this.socket.write(Buffer.concat([header, payload]));
+  }
+}
+
+/**
+ * Completes the WebSocket opening handshake for an HTTP upgrade request
+ * @returns True if the handshake succeeded; otherwise a 400 was sent and the socket destroyed
+ */
+export function acceptWebSocket(
+  request: IncomingMessage,
+  socket: Duplex,
+): boolean {
+  const key = request.headers["sec-websocket-key"];
+  if (
+    request.method !== "GET" ||
+    request.headers.upgrade?.toLowerCase() !== "websocket" ||
+    request.headers["sec-websocket-version"] !== "13" ||
+    typeof key !== "string"
+  ) {
+    socket.end("HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n");
+    return false;
+  }
+
+  const accept = createHash("sha1")
+    .update(key + WEBSOCKET_GUID)
+    .digest("base64");
+  socket.write(
+    [
+      "HTTP/1.1 101 Switching Protocols",
+      "Upgrade: websocket",
+      "Connection: Upgrade",
+      `Sec-WebSocket-Accept: ${accept}`,
+      "",
+      "",
+    ].join("\r\n"),
+  );
+  return true;
+}
+
+interface Frame {
+  readonly opcode: number;
+  readonly payload: Buffer;
+  readonly length: number;
+}
+
+/**
+ * Reads one client frame from the start of the buffer
+ * @returns The frame, null if more bytes are needed, or why it was rejected
+ */
+function readFrame(buffer: Buffer): Frame | null | "invalid" | "too-large" {
+  if (buffer.length < 2) {
+    return null;
+  }
+
+  const opcode = buffer[0] & 0x0f;
+  const masked = (buffer[1] & 0x80) !== 0;
+  let payloadLength = buffer[1] & 0x7f;
+  let offset = 2;
+
+  // Clients must mask every frame
+  if (!masked) {
+    return "invalid";
+  }
+
+  if (payloadLength === 126) {
+    if (buffer.length < offset + 2) {
+      return null;
+    }
+    payloadLength = buffer.readUInt16BE(offset);
+    offset += 2;
+  } else if (payloadLength === 127) {
+    if (buffer.length < offset + 8) {
+      return null;
+    }
+    const length = buffer.readBigUInt64BE(offset);
+    if (length > BigInt(MAX_FRAME_BYTES)) {
+      return "too-large";
+    }
+    payloadLength = Number(length);
+    offset += 8;
+  }
+
+  if (payloadLength > MAX_FRAME_BYTES) {
+    return "too-large";
+  }
+  if (buffer.length < offset + 4 + payloadLength) {
+    return null;
+  }
+
+  const mask = buffer.subarray(offset, offset + 4);
+  offset += 4;
+  const payload = Buffer.alloc(payloadLength);
+  for (let i = 0; i < payloadLength; i++) {
+    payload[i] = buffer[offset + i] ^ mask[i % 4];
+  }
+
+  return { opcode, payload, length: offset + payloadLength };
+}
@@ -0,0 +1,126 @@
+import debug from "debug";
+import { findRegistryWorld } from "../registry/index.js";
+import { findByName } from "../utils/fuzzy.js";
+import type {
+  DataCenter,
+  TravelEligibility,
+  TravelEndpoint,
+  TravelRestriction,
+  WorldStatus,
+} from "../types/index.js";
+
+const log = debug("lodestone-world-status:travel");
+
+/**
+ * Checks whether a character can travel from their home world to another
+ * world right now. Worlds on the same data center are a World Visit and
+ * worlds on another data center in the same region are Data Center Travel;
+ * travel across regions is never allowed.
+ *
+ * Travel is refused while either world is in full or partial maintenance,
+ * and Data Center Travel is refused to Congested worlds. Unknown regions,
+ * statuses and populations count as restrictions rather than being guessed.
+ * @param dataCenters Current world status
+ * @param homeWorld Name or alias of the character's home world
+ * @param targetWorld Name or alias of the world to travel to
+ * @returns Whether travel is allowed, and every restriction that applies
+ */
+export function checkTravelEligibility(
+  dataCenters: readonly DataCenter[],
+  homeWorld: string,
+  targetWorld: string,
+): TravelEligibility {
+  const home = locateWorld(dataCenters, homeWorld);
+  const target = locateWorld(dataCenters, targetWorld);
+  if (!home || !target) {
+    log("Unknown world in travel from %s to %s", homeWorld, targetWorld);
+    return {
+      allowed: false,
+      kind: null,
+      home,
+      target,
+      restrictions: ["unknown-world"],
+    };
+  }
+
+  const kind =
+    home.dataCenter === target.dataCenter
+      ? "world-visit"
+      : "data-center-travel";
+  const restrictions: TravelRestriction[] = [];
+
+  if (home.world.name === target.world.name) {
+    restrictions.push("same-world");
+  }
+
+  if (home.region === "unknown" || target.region === "unknown") {
+    restrictions.push("unknown-region");
+  } else if (home.region !== target.region) {
+    restrictions.push("different-region");
+  }
+
+  if (isUnderMaintenance(home.world)) {
+    restrictions.push("home-maintenance");
+  }
+  if (isUnderMaintenance(target.world)) {
+    restrictions.push("target-maintenance");
+  }
+  if (home.world.status === "unknown" || target.world.status === "unknown") {
+    restrictions.push("unknown-status");
+  }
+
+  // World Visit is open to every world on the data center, however busy
+  if (kind === "data-center-travel") {
+    if (target.world.population === "congested") {
+      restrictions.push("target-congested");
+    } else if (
+      target.world.population === "unknown" &&
+      target.world.category !== "new"
+    ) {
+      // New worlds show their category in place of a population
+      restrictions.push("unknown-population");
+    }
+  }
+
+  log(
+    "Travel from %s to %s: %s",
+    home.world.name,
+    target.world.name,
+    restrictions.join(", ") || "allowed",
+  );
+  return {
+    allowed: restrictions.length === 0,
+    kind,
+    home,
+    target,
+    restrictions,
+  };
+}
+
+/**
+ * Finds a world by name or registry alias, tolerating small typos; aliases
+ * like "Midgard" resolve to the world's full name first
+ * @param dataCenters Current world status
+ * @param name Name or alias of the world
+ * @returns The world with its data center and region, or null if not found
+ */
+export function locateWorld(
+  dataCenters: readonly DataCenter[],
+  name: string,
+): TravelEndpoint | null {
+  const match = findByName(
+    findRegistryWorld(name)?.name ?? name,
+    dataCenters.flatMap((dc) => dc.worlds.map((world) => ({ world, dc }))),
+    ({ world }) => world.name,
+  );
+
+  return match
+    ? { world: match.world, dataCenter: match.dc.name, region: match.dc.region }
+    : null;
+}
+
+function isUnderMaintenance(world: WorldStatus): boolean {
+  return (
+    world.status === "maintenance" || world.status === "partial-maintenance"
+  );
+}
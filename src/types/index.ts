@@ -1,3 +1,5 @@
+import { ValidationError } from "../errors/index.js";
+
 // Branded type for world names to ensure they are properly validated
 export type WorldName = string & { readonly __brand: "WorldName" };
 
@@ -16,18 +18,57 @@ export type PopulationLevel =
   | "congested"
   | "preferred+"
   | "unknown";
+// Category shown next to each world; "new" replaces the population label
+export type WorldCategory = PopulationLevel | "new";
 export type Region = "na" | "eu" | "jp" | "oc" | "unknown";
+// Regional Lodestone site, which decides the language of the status labels
+export type LodestoneLocale = "na" | "eu" | "jp" | "fr" | "de";
+
+// Every value of the literal types above, for validation and enumeration
+export const WORLD_STATUS_TYPES: readonly WorldStatusType[] = [
+  "online",
+  "maintenance",
+  "partial-maintenance",
+  "unknown",
+];
+export const POPULATION_LEVELS: readonly PopulationLevel[] = [
+  "standard",
+  "preferred",
+  "congested",
+  "preferred+",
+  "unknown",
+];
+export const WORLD_CATEGORIES: readonly WorldCategory[] = [
+  "new",
+  ...POPULATION_LEVELS,
+];
+export const REGIONS: readonly Region[] = ["na", "eu", "jp", "oc", "unknown"];
+// Regions that can be looked up; "unknown" only marks unrecognized data centers
+export const LOOKUP_REGIONS: readonly Region[] = REGIONS.filter(
+  (region) => region !== "unknown",
+);
+export const LODESTONE_LOCALES: readonly LodestoneLocale[] = [
+  "na",
+  "eu",
+  "jp",
+  "fr",
+  "de",
+];
 
 export interface WorldStatus {
   readonly name: WorldName;
   readonly status: WorldStatusType;
   readonly population: PopulationLevel;
+  readonly category: WorldCategory;
   readonly newCharacterCreation: boolean;
 }
 
 export interface WorldStatusRaw {
   readonly name: string;
   readonly statusText: string;
+  // Read from the status and creation icons when the page markup has them
+  readonly status?: WorldStatusType;
+  readonly newCharacterCreation?: boolean;
 }
 
 export interface DataCenter {
@@ -43,15 +84,595 @@ export interface CacheStatistics {
   readonly ageMs: number | null;
   readonly timeUntilExpirationMs: number | null;
   readonly expirationMs: number;
+  readonly servedStale: boolean;
+  // Lookups since the cache was created; not reset by clear()
+  readonly hits: number;
+  readonly misses: number;
+}
+
+// How long expired world status data may still be served
+export interface CachePolicy {
+  readonly staleWhileRevalidateMs?: number;
+  readonly staleIfErrorMs?: number;
+}
+
+// Minimal response shape consumed from an HTTP transport
+export interface HttpResponse {
+  readonly ok: boolean;
+  readonly status: number;
+  readonly statusText?: string;
+  readonly headers?: { get(name: string): string | null };
+  text(): Promise<string>;
+}
+
+// Per-request options handed to an HTTP transport
+export interface HttpRequestOptions {
+  // Defaults to GET; notifiers POST with a body
+  readonly method?: string;
+  readonly headers?: Readonly<Record<string, string>>;
+  readonly body?: string;
+  readonly signal?: AbortSignal;
+}
+
+// Pluggable HTTP transport used for every request the client makes
+export interface HttpTransport {
+  fetch(url: string, options?: HttpRequestOptions): Promise<HttpResponse>;
+}
+
+// Per-call options accepted by every client method that may hit the network
+export interface RequestOptions {
+  readonly signal?: AbortSignal;
+  readonly timeoutMs?: number;
+}
+
+// Options accepted by fetchHtml
+export interface FetchHtmlOptions extends RequestOptions {
+  readonly transport?: HttpTransport;
+}
+
+// Cached data together with the time it was stored
+export interface CacheEntry<T> {
+  readonly data: T;
+  readonly storedAt: number;
+}
+
+// Key-value storage backing the cache across processes (e.g. files, Redis)
+export interface CacheStorageAdapter {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+// Source of time for retry backoff, injectable for tests
+export interface Clock {
+  now(): number;
+  sleep(ms: number, signal?: AbortSignal): Promise<void>;
+}
+
+// Retry policy for transient Lodestone failures
+export interface RetryPolicy {
+  readonly maxAttempts?: number;
+  readonly initialDelayMs?: number;
+  readonly maxDelayMs?: number;
+  readonly backoffFactor?: number;
+  readonly jitter?: "full" | "none";
+  readonly retryableStatuses?: readonly number[];
+}
+
+// Constructor options for LodestoneWorldStatus
+export interface LodestoneWorldStatusOptions {
+  readonly cacheExpirationMs?: number;
+  readonly cachePolicy?: CachePolicy;
+  readonly storage?: CacheStorageAdapter;
+  readonly storageKey?: string;
+  readonly transport?: HttpTransport;
+  readonly timeoutMs?: number;
+  readonly retry?: RetryPolicy;
+  readonly clock?: Clock;
+  readonly random?: () => number;
+  // Throw SchemaDriftError instead of returning implausible parse results
+  readonly strictParsing?: boolean;
+  // Lodestone site to read world status from (default: "na")
+  readonly locale?: LodestoneLocale;
+  // Records every freshly fetched snapshot as status history
+  readonly history?: StatusHistoryStore;
+}
+
+// Location of a world within the snapshot it was seen in
+export interface WorldChangeContext {
+  readonly world: WorldName;
+  readonly dataCenter: DataCenterName;
+  readonly region: Region;
+}
+
+// A single world field that changed between two snapshots
+export interface WorldFieldChange<
+  K extends "status" | "population" | "newCharacterCreation",
+> extends WorldChangeContext {
+  readonly type: K;
+  readonly before: WorldStatus[K];
+  readonly after: WorldStatus[K];
+  readonly previous: WorldStatus;
+  readonly current: WorldStatus;
+}
+
+export type WorldStatusFieldChange =
+  | WorldFieldChange<"status">
+  | WorldFieldChange<"population">
+  | WorldFieldChange<"newCharacterCreation">;
+
+export interface WorldAddedChange extends WorldChangeContext {
+  readonly type: "world-added";
+  readonly before: null;
+  readonly after: WorldStatus;
+}
+
+export interface WorldRemovedChange extends WorldChangeContext {
+  readonly type: "world-removed";
+  readonly before: WorldStatus;
+  readonly after: null;
+}
+
+export interface DataCenterAddedChange {
+  readonly type: "datacenter-added";
+  readonly dataCenter: DataCenterName;
+  readonly region: Region;
+  readonly before: null;
+  readonly after: DataCenter;
+}
+
+export interface DataCenterRemovedChange {
+  readonly type: "datacenter-removed";
+  readonly dataCenter: DataCenterName;
+  readonly region: Region;
+  readonly before: DataCenter;
+  readonly after: null;
+}
+
+// Any change detected between two world status snapshots
+export type WorldStatusChange =
+  | WorldStatusFieldChange
+  | WorldAddedChange
+  | WorldRemovedChange
+  | DataCenterAddedChange
+  | DataCenterRemovedChange;
+
+export type WorldStatusChangeType = WorldStatusChange["type"];
+
+// Events emitted by WorldStatusWatcher, keyed by event name
+export interface WorldStatusWatcherEvents {
+  change: [change: WorldStatusChange];
+  changes: [changes: WorldStatusChange[], snapshot: readonly DataCenter[]];
+  status: [change: WorldFieldChange<"status">];
+  population: [change: WorldFieldChange<"population">];
+  newCharacterCreation: [change: WorldFieldChange<"newCharacterCreation">];
+  "world-added": [change: WorldAddedChange];
+  "world-removed": [change: WorldRemovedChange];
+  "datacenter-added": [change: DataCenterAddedChange];
+  "datacenter-removed": [change: DataCenterRemovedChange];
+  snapshot: [snapshot: readonly DataCenter[]];
+  error: [error: unknown];
+  start: [];
+  stop: [];
+}
+
+// Options for polling with WorldStatusWatcher
+export interface WatchOptions {
+  readonly intervalMs?: number;
+  readonly maxBackoffMs?: number;
+  readonly signal?: AbortSignal;
+  readonly clock?: Clock;
+}
+
+// A world opening or closing character creation
+export interface CharacterCreationAlert extends WorldChangeContext {
+  // Whether new characters can now be created on the world
+  readonly available: boolean;
+  readonly current: WorldStatus;
+  // When the change was delivered, after any debounce, in ms since the epoch
+  readonly at: number;
+}
+
+// Delivers character creation alerts, e.g. to a webhook or a callback
+export interface CharacterCreationNotifier {
+  notify(alert: CharacterCreationAlert): void | Promise<void>;
+}
+
+// Options for CharacterCreationAlerts
+export interface CharacterCreationAlertOptions {
+  // How long a change must last before it is delivered (default: 0)
+  readonly debounceMs?: number;
+  readonly clock?: Clock;
+}
+
+// Options for WebhookNotifier
+export interface WebhookNotifierOptions {
+  readonly transport?: HttpTransport;
+  // Sent with every request, e.g. an authorization header
+  readonly headers?: Readonly<Record<string, string>>;
+  // Request timeout in milliseconds (default: 10 seconds)
+  readonly timeoutMs?: number;
+}
+
+// Fields shared by every alert rule
+interface AlertRuleBase {
+  // Unique name, reported with every event
+  readonly id: string;
+  readonly description?: string;
+  // Only consider worlds and data centers in this region or data center
+  readonly region?: Region;
+  readonly dataCenter?: string;
+  // Minimum time between two firings of the rule (default: 0)
+  readonly cooldownMs?: number;
+}
+
+// Fires when any world has had one of the statuses for at least forMs
+export interface WorldStatusAlertRule extends AlertRuleBase {
+  readonly type: "world-status";
+  readonly status: WorldStatusType | readonly WorldStatusType[];
+  // Default: 0, firing on the first snapshot showing the status
+  readonly forMs?: number;
+}
+
+// Fires when more than a share of worlds are at one of the population levels
+export interface PopulationShareAlertRule extends AlertRuleBase {
+  readonly type: "population-share";
+  readonly population: PopulationLevel | readonly PopulationLevel[];
+  // Share of worlds from 0 to 1 that must be exceeded, e.g. 0.5 for "more than half"
+  readonly above: number;
+}
+
+// Fires when a data center is missing from the snapshot: the named one, or
+// else any that an earlier snapshot had
+export interface DataCenterMissingAlertRule extends AlertRuleBase {
+  readonly type: "datacenter-missing";
+}
+
+export type AlertRule =
+  | WorldStatusAlertRule
+  | PopulationShareAlertRule
+  | DataCenterMissingAlertRule;
+
+// A rule starting or stopping to match
+export interface AlertRuleEvent {
+  readonly type: "fire" | "resolve";
+  readonly rule: AlertRule;
+  // Worlds or data centers that matched; for resolve, those matched when the rule fired
+  readonly matches: readonly string[];
+  // When the rule fired, in ms since the epoch
+  readonly firedAt: number;
+  // When this event happened, in ms since the epoch
+  readonly at: number;
+}
+
+// Events emitted by AlertRuleEngine, keyed by event name
+export interface AlertRuleEngineEvents {
+  fire: [event: AlertRuleEvent];
+  resolve: [event: AlertRuleEvent];
+}
+
+// Options for AlertRuleEngine
+export interface AlertRuleEngineOptions {
+  // Source of evaluation times when none is given (default: system clock)
+  readonly clock?: Clock;
+}
+
+// Anything that can provide world status snapshots to a watcher
+export interface WorldStatusSource {
+  getAllWorlds(options?: RequestOptions): Promise<DataCenter[]>;
+  getCacheStats?(): CacheStatistics;
+}
+
+// Full state sent to a stream subscriber when it connects
+export interface WorldStatusStreamSnapshot {
+  readonly type: "snapshot";
+  readonly dataCenters: readonly DataCenter[];
+}
+
+// A world that changed, with its state before and after; null when the
+// world was added or removed
+export interface WorldStatusStreamChange extends WorldChangeContext {
+  readonly type: "change";
+  readonly previous: WorldStatus | null;
+  readonly current: WorldStatus | null;
+}
+
+export type WorldStatusStreamMessage =
+  | WorldStatusStreamSnapshot
+  | WorldStatusStreamChange;
+
+// Options for streaming changes over Server-Sent Events and WebSocket
+export interface WorldStatusStreamOptions {
+  // Interval between keep-alive comments/pings (default: 15 seconds)
+  readonly heartbeatMs?: number;
+}
+
+// Options for the REST API request handler
+export interface WorldStatusServerOptions {
+  // Path prefix the routes are mounted under, e.g. "/api" (default: none)
+  readonly basePath?: string;
+}
+
+// Options for the Prometheus metrics exporter
+export interface MetricsOptions {
+  // Prepended to every metric name (default: "lodestone")
+  readonly prefix?: string;
+  readonly clock?: Clock;
 }
 
 // Status parsing result type
 export interface ParsedStatus {
   readonly status: WorldStatusType;
   readonly population: PopulationLevel;
+  readonly category: WorldCategory;
   readonly newCharacterCreation: boolean;
 }
 
+// Options for parseWorldStatus
+export interface ParseOptions {
+  // Throw SchemaDriftError when the results look implausible
+  readonly strict?: boolean;
+  // Language of the status labels on the page (default: "na")
+  readonly locale?: LodestoneLocale;
+  // Page the HTML came from, reported on SchemaDriftError
+  readonly url?: string;
+}
+
+// A list under a heading that yielded at least one world
+export interface MatchedList {
+  readonly heading: string;
+  readonly items: number;
+  readonly worlds: number;
+}
+
+// A list item that did not look like a world, in a list that had worlds
+export interface RejectedItem {
+  readonly heading: string;
+  readonly text: string;
+}
+
+// A world whose status text matched no known status or population
+export interface UnknownStatus {
+  readonly world: string;
+  readonly dataCenter: string;
+  readonly text: string;
+}
+
+// What the parser saw and skipped, for spotting markup changes
+export interface ParseDiagnostics {
+  readonly headings: readonly string[];
+  readonly matchedLists: readonly MatchedList[];
+  readonly rejectedItems: readonly RejectedItem[];
+  readonly unknownStatuses: readonly UnknownStatus[];
+  // Data centers whose region fell back to "unknown"
+  readonly unknownRegions: readonly string[];
+}
+
+export interface ParseResult {
+  readonly dataCenters: DataCenter[];
+  readonly diagnostics: ParseDiagnostics;
+}
+
+// Options for "did you mean" suggestions
+export interface SuggestOptions {
+  // Maximum number of suggestions (default: 5)
+  readonly limit?: number;
+  // Similarity from 0 to 1 a name needs to be suggested (default: 0.5)
+  readonly minScore?: number;
+}
+
+// A known name ranked by similarity to what the user typed
+export interface NameSuggestion {
+  readonly name: string;
+  readonly score: number;
+}
+
+export interface WorldSuggestion extends NameSuggestion {
+  readonly name: WorldName;
+  readonly dataCenter: DataCenterName;
+  readonly region: Region;
+}
+
+export interface DataCenterSuggestion extends NameSuggestion {
+  readonly name: DataCenterName;
+  readonly region: Region;
+}
+
+// Physical site hosting a region's data centers
+export interface DataCenterLocation {
+  readonly city: string;
+  readonly country: string;
+}
+
+// A world as listed in the static world registry
+export interface RegistryWorld {
+  readonly name: WorldName;
+  readonly dataCenter: DataCenterName;
+  readonly region: Region;
+  readonly location: DataCenterLocation;
+  // Other spellings and short names players use for the world
+  readonly aliases: readonly string[];
+}
+
+// A data center as listed in the static world registry
+export interface RegistryDataCenter {
+  readonly name: DataCenterName;
+  readonly region: Region;
+  readonly location: DataCenterLocation;
+  readonly worlds: readonly WorldName[];
+}
+
+// Known worlds and data centers, versioned by the date they were last checked
+export interface WorldRegistry {
+  readonly version: string;
+  readonly dataCenters: readonly RegistryDataCenter[];
+  readonly worlds: readonly RegistryWorld[];
+}
+
+// A world in scraped results, located by its data center
+export interface WorldLocation {
+  readonly world: string;
+  readonly dataCenter: string;
+}
+
+// Differences between scraped world status and the world registry
+export interface RegistryValidation {
+  // True when the scraped worlds and data centers match the registry exactly
+  readonly valid: boolean;
+  readonly unknownWorlds: readonly WorldLocation[];
+  readonly unknownDataCenters: readonly string[];
+  // Worlds scraped under a different data center than the registry lists
+  readonly movedWorlds: ReadonlyArray<
+    WorldLocation & { readonly expectedDataCenter: DataCenterName }
+  >;
+  // Registry worlds that were not in the scraped results
+  readonly missingWorlds: readonly WorldLocation[];
+}
+
+// A notice linked from the Lodestone maintenance news list
+export interface MaintenanceNoticeLink {
+  readonly title: string;
+  readonly url: string;
+  readonly postedAt: Date | null;
+}
+
+// A scheduled maintenance window read from a Lodestone notice
+export interface MaintenanceWindow {
+  readonly title: string;
+  readonly url: string;
+  readonly start: Date;
+  // Null when the notice gives no end time
+  readonly end: Date | null;
+  // Affected services or worlds, one entry per line of the notice
+  readonly affected: readonly string[];
+}
+
+// Why a character can't travel from their home world to a target world
+export type TravelRestriction =
+  // Either world isn't in the current world status
+  | "unknown-world"
+  // The character is already on the target world
+  | "same-world"
+  // Travel never crosses regions
+  | "different-region"
+  // Either world's region isn't known, so region rules can't be checked
+  | "unknown-region"
+  // Either world is in full or partial maintenance
+  | "home-maintenance"
+  | "target-maintenance"
+  // Either world's status isn't known
+  | "unknown-status"
+  // Data center travel to Congested worlds is closed
+  | "target-congested"
+  // The target world's population isn't known
+  | "unknown-population";
+
+// World Visit stays within a data center; Data Center Travel leaves it
+export type TravelKind = "world-visit" | "data-center-travel";
+
+// A world involved in travel, with where it is
+export interface TravelEndpoint {
+  readonly world: WorldStatus;
+  readonly dataCenter: DataCenterName;
+  readonly region: Region;
+}
+
+// Whether a character can travel from their home world right now, and why not
+export interface TravelEligibility {
+  readonly allowed: boolean;
+  // Null when either world is unknown
+  readonly kind: TravelKind | null;
+  readonly home: TravelEndpoint | null;
+  readonly target: TravelEndpoint | null;
+  // Every restriction that applies, empty when travel is allowed
+  readonly restrictions: readonly TravelRestriction[];
+}
+
+// A world entering a new state, recorded when a snapshot first shows it
+export interface StatusTransition {
+  readonly world: WorldName;
+  readonly dataCenter: DataCenterName;
+  readonly region: Region;
+  readonly status: WorldStatusType;
+  readonly population: PopulationLevel;
+  readonly category: WorldCategory;
+  readonly newCharacterCreation: boolean;
+  // When the snapshot showing the new state was fetched, in ms since the epoch
+  readonly at: number;
+  // Set when the world was missing from the snapshot, e.g. because its whole
+  // data center dropped off the page; the other fields repeat its last state
+  readonly absent?: true;
+}
+
+// Filters for reading status history; transitions must match all of them
+export interface StatusHistoryQuery {
+  readonly world?: string;
+  readonly dataCenter?: string;
+  readonly region?: Region;
+  // Earliest transition time to include, in ms since the epoch
+  readonly from?: number;
+  // Transitions at or after this time are excluded, in ms since the epoch
+  readonly to?: number;
+}
+
+// Append-only storage for status history (e.g. memory, JSON-lines files)
+export interface StatusHistoryStore {
+  append(transitions: readonly StatusTransition[]): Promise<void>;
+  // Matching transitions, oldest first
+  query(query?: StatusHistoryQuery): Promise<StatusTransition[]>;
+}
+
+// Period to compute status statistics over, in ms since the epoch
+export interface StatusStatsOptions {
+  // Start of the period (default: the earliest transition)
+  readonly from?: number;
+  // End of the period (default: now)
+  readonly to?: number;
+}
+
+// Time-weighted statistics over a period of status history
+export interface StatusStats {
+  // Time covered by history; worlds aren't tracked before they are first seen
+  readonly trackedMs: number;
+  readonly onlineMs: number;
+  // Share of tracked time spent online, from 0 to 100
+  readonly onlinePercent: number;
+  // Full or partial maintenance windows, clipped to the period
+  readonly maintenanceCount: number;
+  readonly maintenanceMs: number;
+  // 0 when there was no maintenance
+  readonly longestMaintenanceMs: number;
+  readonly meanMaintenanceMs: number;
+  // Share of tracked time spent at each population level, from 0 to 100
+  readonly populationPercent: Readonly<Record<PopulationLevel, number>>;
+}
+
+export interface WorldStatusStats extends StatusStats {
+  readonly world: WorldName;
+  readonly dataCenter: DataCenterName;
+  readonly region: Region;
+}
+
+// Totals over every world in a data center
+export interface DataCenterStatusStats extends StatusStats {
+  readonly dataCenter: DataCenterName;
+  readonly region: Region;
+}
+
+// Totals over every world in a region
+export interface RegionStatusStats extends StatusStats {
+  readonly region: Region;
+}
+
+// Status statistics for a period, per world and rolled up
+export interface StatusStatsReport {
+  readonly from: number;
+  readonly to: number;
+  readonly worlds: readonly WorldStatusStats[];
+  readonly dataCenters: readonly DataCenterStatusStats[];
+  readonly regions: readonly RegionStatusStats[];
+}
+
 // Type guards for branded types
 export function isValidWorldName(name: string): name is WorldName {
   const trimmed = name.trim();
@@ -66,14 +687,14 @@ export function isValidDataCenterName(name: string): name is DataCenterName {
 // Helper functions to create branded types
 export function createWorldName(name: string): WorldName {
   if (!isValidWorldName(name)) {
-    throw new Error(`Invalid world name: ${name}`);
+    throw new ValidationError("world name", name);
   }
   return name as WorldName;
 }
 
 export function createDataCenterName(name: string): DataCenterName {
   if (!isValidDataCenterName(name)) {
-    throw new Error(`Invalid data center name: ${name}`);
+    throw new ValidationError("data center name", name);
   }
   return name as DataCenterName;
 }
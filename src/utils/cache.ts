@@ -10,6 +10,9 @@ export class Cache<T> {
   private cachedData: T | null = null;
   private hasValidData: boolean = false;
   private lastFetchTime: number = 0;
+  private lastServedStale: boolean = false;
+  private hits: number = 0;
+  private misses: number = 0;
   private readonly expirationMs: number;
 
   constructor(expirationMs: number = 5 * 60 * 1000) {
@@ -23,16 +26,28 @@ export class Cache<T> {
   }
 
   /**
-   * Get cached data if it's still valid
+   * Get cached data if it's still valid, counting the lookup as a hit or miss
    * @returns Cached data or null if expired/empty
    */
   get(): T | null {
+    const data = this.peek();
+    this.countLookup(data !== null);
+    return data;
+  }
+
+  /**
+   * Get cached data if it's still valid, without counting the lookup; for
+   * callers that check more than one place before the lookup is settled
+   * @returns Cached data or null if expired/empty
+   */
+  peek(): T | null {
     const now = Date.now();
     const isExpired = now - this.lastFetchTime >= this.expirationMs;
 
     if (this.hasValidData && !isExpired) {
       const ageSeconds = Math.round((now - this.lastFetchTime) / 1000);
       log("Cache hit - returning cached data (age: %ds)", ageSeconds);
+      this.lastServedStale = false;
       return this.cachedData;
     }
 
@@ -50,14 +65,53 @@ export class Cache<T> {
     return null;
   }
 
+  /**
+   * Count a lookup made with peek() in the hit and miss statistics
+   * @param hit Whether the lookup found fresh data
+   */
+  countLookup(hit: boolean): void {
+    if (hit) {
+      this.hits++;
+    } else {
+      this.misses++;
+    }
+  }
+
+  /**
+   * Get cached data that has expired, as long as it is not older than the
+   * expiration plus the given stale window
+   * @param maxStaleMs How long past expiration the data may still be served
+   * @returns Stale data or null if fresh, empty, or too old
+   */
+  getStale(maxStaleMs: number = Infinity): T | null {
+    if (!this.hasValidData || this.isValid() || maxStaleMs <= 0) {
+      return null;
+    }
+
+    const staleMs = Date.now() - this.lastFetchTime - this.expirationMs;
+    if (staleMs >= maxStaleMs) {
+      log(
+        "Stale data too old to serve - %ds past expiration",
+        Math.round(staleMs / 1000),
+      );
+      return null;
+    }
+
+    log("Serving stale data - %ds past expiration", Math.round(staleMs / 1000));
+    this.lastServedStale = true;
+    return this.cachedData;
+  }
+
   /**
    * Set cached data with current timestamp
    * @param data Data to cache
+   * @param storedAt When the data was fetched, for data restored from storage
    */
-  set(data: T): void {
+  set(data: T, storedAt: number = Date.now()): void {
     this.cachedData = data;
     this.hasValidData = true;
-    this.lastFetchTime = Date.now();
+    this.lastFetchTime = storedAt;
+    this.lastServedStale = false;
     log("Data cached at %d", this.lastFetchTime);
   }
 
@@ -106,6 +160,7 @@ export class Cache<T> {
     this.cachedData = null;
     this.hasValidData = false;
     this.lastFetchTime = 0;
+    this.lastServedStale = false;
   }
 
   /**
@@ -119,6 +174,9 @@ export class Cache<T> {
       ageMs: this.getAge(),
       timeUntilExpirationMs: this.getTimeUntilExpiration(),
       expirationMs: this.expirationMs,
+      servedStale: this.lastServedStale,
+      hits: this.hits,
+      misses: this.misses,
     };
   }
 }
@@ -0,0 +1,96 @@
+import debug from "debug";
+
+const log = debug("lodestone-world-status:coalesce");
+
+interface InFlight<T> {
+  readonly promise: Promise<T>;
+  readonly controller: AbortController;
+  waiters: number;
+}
+
+/**
+ * Shares a single in-flight operation between concurrent callers
+ *
+ * The shared operation is only aborted once every caller waiting on it has
+ * aborted, so one impatient caller can't fail the others.
+ */
+export class RequestCoalescer<T> {
+  private inFlight: InFlight<T> | null = null;
+
+  /**
+   * Check if an operation is currently in flight
+   * @returns True if callers would join an existing operation
+   */
+  isPending(): boolean {
+    return this.inFlight !== null;
+  }
+
+  /**
+   * Run the operation, or join the one already in flight
+   * @param operation Starts the shared operation with a combined abort signal
+   * @param signal Optional AbortSignal for this caller only
+   * @param createAbortError Builds the error this caller rejects with on abort
+   * @returns Promise resolving to the shared operation's result
+   */
+  run(
+    operation: (signal: AbortSignal) => Promise<T>,
+    signal?: AbortSignal,
+    createAbortError: (reason: unknown) => Error = (reason) =>
+      reason instanceof Error ? reason : new Error("Aborted"),
+  ): Promise<T> {
+    if (signal?.aborted) {
+      return Promise.reject(createAbortError(signal.reason));
+    }
+
+    let inFlight = this.inFlight;
+    if (inFlight) {
+      log("Joining in-flight operation (%d waiting)", inFlight.waiters + 1);
+    } else {
+      const controller = new AbortController();
+      const promise = operation(controller.signal).finally(() => {
+        // A cancelled operation may already have been replaced by a new one
+        if (this.inFlight === started) {
+          this.inFlight = null;
+        }
+      });
+      const started: InFlight<T> = { promise, controller, waiters: 0 };
+      inFlight = started;
+      this.inFlight = started;
+      log("Started new shared operation");
+    }
+
+    const shared = inFlight;
+    shared.waiters++;
+
+    if (!signal) {
+      return shared.promise;
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        shared.waiters--;
+        reject(createAbortError(signal.reason));
+        if (shared.waiters === 0) {
+          log("All waiters aborted - aborting shared operation");
+          // Later callers start afresh instead of joining the cancelled operation
+          if (this.inFlight === shared) {
+            this.inFlight = null;
+          }
+          shared.controller.abort(signal.reason);
+        }
+      };
+      signal.addEventListener("abort", onAbort, { once: true });
+
+      shared.promise.then(
+        (value) => {
+          signal.removeEventListener("abort", onAbort);
+          resolve(value);
+        },
+        (error) => {
+          signal.removeEventListener("abort", onAbort);
+          reject(error);
+        },
+      );
+    });
+  }
+}
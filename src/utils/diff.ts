@@ -0,0 +1,145 @@
+import type {
+  DataCenter,
+  WorldStatus,
+  WorldStatusChange,
+} from "../types/index.js";
+import { normalizeWorldName } from "./index.js";
+
+/**
+ * Compares two world status snapshots and lists everything that changed
+ *
+ * Worlds are matched by normalized name across data centers, so a world that
+ * moves to another data center is reported as removed and added. When a data
+ * center appears or disappears, its worlds are reported individually as well.
+ * @param previous The earlier snapshot
+ * @param current The later snapshot
+ * @returns Changes in data center order, data center changes before world changes
+ */
+export function diffWorldStatus(
+  previous: readonly DataCenter[],
+  current: readonly DataCenter[],
+): WorldStatusChange[] {
+  const changes: WorldStatusChange[] = [];
+  const previousDataCenters = indexDataCenters(previous);
+  const currentDataCenters = indexDataCenters(current);
+  const previousWorlds = indexWorlds(previous);
+  const currentWorlds = indexWorlds(current);
+
+  for (const [key, dc] of currentDataCenters) {
+    if (!previousDataCenters.has(key)) {
+      changes.push({
+        type: "datacenter-added",
+        dataCenter: dc.name,
+        region: dc.region,
+        before: null,
+        after: dc,
+      });
+    }
+  }
+
+  for (const [key, dc] of previousDataCenters) {
+    if (!currentDataCenters.has(key)) {
+      changes.push({
+        type: "datacenter-removed",
+        dataCenter: dc.name,
+        region: dc.region,
+        before: dc,
+        after: null,
+      });
+    }
+  }
+
+  for (const [key, { world, dc }] of currentWorlds) {
+    const context = {
+      world: world.name,
+      dataCenter: dc.name,
+      region: dc.region,
+    };
+    const before = previousWorlds.get(key);
+
+    if (
+      !before ||
+      normalizeWorldName(before.dc.name) !== normalizeWorldName(dc.name)
+    ) {
+      if (before) {
+        changes.push({
+          type: "world-removed",
+          world: before.world.name,
+          dataCenter: before.dc.name,
+          region: before.dc.region,
+          before: before.world,
+          after: null,
+        });
+      }
+      changes.push({
+        type: "world-added",
+        ...context,
+        before: null,
+        after: world,
+      });
+      continue;
+    }
+
+    const pair = { previous: before.world, current: world };
+    if (before.world.status !== world.status) {
+      changes.push({
+        type: "status",
+        ...context,
+        before: before.world.status,
+        after: world.status,
+        ...pair,
+      });
+    }
+    if (before.world.population !== world.population) {
+      changes.push({
+        type: "population",
+        ...context,
+        before: before.world.population,
+        after: world.population,
+        ...pair,
+      });
+    }
+    if (before.world.newCharacterCreation !== world.newCharacterCreation) {
+      changes.push({
+        type: "newCharacterCreation",
+        ...context,
+        before: before.world.newCharacterCreation,
+        after: world.newCharacterCreation,
+        ...pair,
+      });
+    }
+  }
+
+  for (const [key, { world, dc }] of previousWorlds) {
+    if (!currentWorlds.has(key)) {
+      changes.push({
+        type: "world-removed",
+        world: world.name,
+        dataCenter: dc.name,
+        region: dc.region,
+        before: world,
+        after: null,
+      });
+    }
+  }
+
+  return changes;
+}
+
+function indexDataCenters(
+  dataCenters: readonly DataCenter[],
+): Map<string, DataCenter> {
+  return new Map(dataCenters.map((dc) => [normalizeWorldName(dc.name), dc]));
+}
+
+function indexWorlds(
+  dataCenters: readonly DataCenter[],
+): Map<string, { world: WorldStatus; dc: DataCenter }> {
+  const worlds = new Map<string, { world: WorldStatus; dc: DataCenter }>();
+  for (const dc of dataCenters) {
+    for (const world of dc.worlds) {
+      worlds.set(normalizeWorldName(world.name), { world, dc });
+    }
+  }
+  return worlds;
+}
@@ -0,0 +1,132 @@
+import type { NameSuggestion, SuggestOptions } from "../types/index.js";
+
+// Lookups fall back to the closest name only when it is at least this similar
+const TYPO_MATCH_SCORE = 0.8;
+
+/**
+ * Reduces a world or data center name to lowercase letters and digits so
+ * that accents, punctuation and a trailing "(Data Center)" don't matter
+ * @param name Name as typed by a user
+ * @returns Name for comparison, e.g. "hyperion" for "Hyperion (Primal)"
+ */
+export function normalizeLookupName(name: string): string {
+  return name
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .replace(/\(.*?\)/g, " ")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+/**
+ * How similar two names are once normalized, from 0 (nothing in common) to 1
+ * (the same name). Based on the edit distance with swapped letters counting
+ * as a single edit, so "Balmnug" is close to "Balmung".
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const left = normalizeLookupName(a);
+  const right = normalizeLookupName(b);
+  const length = Math.max(left.length, right.length);
+  if (length === 0) {
+    return 0;
+  }
+  return 1 - editDistance(left, right) / length;
+}
+
+/**
+ * Ranks names by similarity to a query for "did you mean" suggestions
+ * @param query Name as typed by a user
+ * @param names Known names
+ * @param options Maximum number of suggestions and minimum score
+ * @returns Suggestions, most similar first
+ */
+export function suggestNames(
+  query: string,
+  names: readonly string[],
+  options: SuggestOptions = {},
+): NameSuggestion[] {
+  return rankByName(query, names, (name) => name, options).map(
+    ({ item, score }) => ({ name: item, score }),
+  );
+}
+
+/**
+ * Ranks items by how similar their name is to a query
+ * @param query Name as typed by a user
+ * @param items Items to rank
+ * @param getName Reads the name of an item
+ * @param options Maximum number of results (default: 5) and minimum score (default: 0.5)
+ * @returns Items with their scores, most similar first
+ */
+export function rankByName<T>(
+  query: string,
+  items: readonly T[],
+  getName: (item: T) => string,
+  { limit = 5, minScore = 0.5 }: SuggestOptions = {},
+): Array<{ item: T; score: number }> {
+  return items
+    .map((item) => ({ item, score: nameSimilarity(query, getName(item)) }))
+    .filter(({ score }) => score >= minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/**
+ * Finds the item a user most likely meant: an exact match after
+ * normalization, or else the single closest name if it is only a typo away
+ * @param query Name as typed by a user
+ * @param items Items to search
+ * @param getName Reads the name of an item
+ * @returns The matching item, or null if there is no clear match
+ */
+export function findByName<T>(
+  query: string,
+  items: readonly T[],
+  getName: (item: T) => string,
+): T | null {
+  const normalized = normalizeLookupName(query);
+  if (!normalized) {
+    return null;
+  }
+
+  const exact = items.find(
+    (item) => normalizeLookupName(getName(item)) === normalized,
+  );
+  if (exact !== undefined) {
+    return exact;
+  }
+
+  const [best, runnerUp] = rankByName(query, items, getName, {
+    limit: 2,
+    minScore: TYPO_MATCH_SCORE,
+  });
+  // Two equally close names are a guess, not a typo
+  return best && best.score !== runnerUp?.score ? best.item : null;
+}
+
+/**
+ * Optimal string alignment distance: insertions, deletions, substitutions
+ * and swaps of adjacent characters each cost one edit
+ */
+function editDistance(a: string, b: string): number {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : i)),
+  );
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(
+        rows[i - 1][j] + 1,
+        rows[i][j - 1] + 1,
+        rows[i - 1][j - 1] + cost,
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return rows[a.length][b.length];
+}
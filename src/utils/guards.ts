@@ -0,0 +1,13 @@
+/**
+ * Checks that a parsed JSON value is an object whose fields can be read
+ */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+/**
+ * Checks whether a file system error means the file doesn't exist
+ */
+export function isNotFound(error: unknown): boolean {
+  return isRecord(error) && error.code === "ENOENT";
+}
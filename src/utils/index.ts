@@ -1,5 +1,15 @@
+import type { WorldStatus } from "../types/index.js";
+
 export * from "./scraper.js";
 export * from "./cache.js";
+export * from "./clock.js";
+export * from "./coalesce.js";
+export * from "./diff.js";
+export * from "./fuzzy.js";
+export { getWorldStatusUrl } from "./locales.js";
+export * from "./maintenance.js";
+export * from "./retry.js";
+export * from "./storage.js";
 
 /**
  * Utility function to normalize world names for API calls
@@ -9,3 +19,15 @@ export * from "./cache.js";
 export function normalizeWorldName(worldName: string): string {
   return worldName.toLowerCase().trim();
 }
+
+/**
+ * Whether characters created on or transferred to a world receive the
+ * Preferred World bonus, which Preferred and Preferred+ worlds grant
+ * @param world World status, or any object with its category
+ * @returns True for Preferred and Preferred+ worlds
+ */
+export function hasPreferredWorldBonus(
+  world: Pick<WorldStatus, "category">,
+): boolean {
+  return world.category === "preferred" || world.category === "preferred+";
+}
@@ -0,0 +1,132 @@
+import type {
+  LodestoneLocale,
+  PopulationLevel,
+  WorldStatusType,
+} from "../types/index.js";
+
+// Lowercase labels for each value, checked in order so that longer labels
+// win over the shorter labels they contain (e.g. "preferred+" and "preferred")
+interface StatusLabels {
+  readonly status: ReadonlyArray<
+    readonly [Exclude<WorldStatusType, "unknown">, readonly string[]]
+  >;
+  readonly population: ReadonlyArray<
+    readonly [Exclude<PopulationLevel, "unknown">, readonly string[]]
+  >;
+  readonly newWorld: readonly string[];
+}
+
+const ENGLISH_LABELS: StatusLabels = {
+  status: [
+    ["partial-maintenance", ["partial maintenance"]],
+    ["maintenance", ["maintenance"]],
+    ["online", ["online"]],
+  ],
+  population: [
+    ["preferred+", ["preferred+"]],
+    ["preferred", ["preferred"]],
+    ["congested", ["congested"]],
+    ["standard", ["standard"]],
+  ],
+  newWorld: ["new"],
+};
+
+const LOCALE_LABELS: Readonly<Record<LodestoneLocale, StatusLabels>> = {
+  na: ENGLISH_LABELS,
+  eu: ENGLISH_LABELS,
+  jp: {
+    status: [
+      ["partial-maintenance", ["一部メンテナンス"]],
+      ["maintenance", ["メンテナンス"]],
+      ["online", ["オンライン"]],
+    ],
+    population: [
+      ["preferred+", ["超優遇", "優遇+"]],
+      ["preferred", ["優遇"]],
+      ["congested", ["混雑"]],
+      ["standard", ["標準"]],
+    ],
+    newWorld: ["新規"],
+  },
+  fr: {
+    status: [
+      ["partial-maintenance", ["maintenance partielle"]],
+      ["maintenance", ["maintenance"]],
+      ["online", ["en ligne"]],
+    ],
+    population: [
+      ["preferred+", ["privilégié+", "recommandé+"]],
+      ["preferred", ["privilégié", "recommandé"]],
+      ["congested", ["surpeuplé", "saturé"]],
+      ["standard", ["standard"]],
+    ],
+    newWorld: ["nouveau"],
+  },
+  de: {
+    status: [
+      ["partial-maintenance", ["teilweise wartung"]],
+      ["maintenance", ["wartung"]],
+      ["online", ["online"]],
+    ],
+    population: [
+      ["preferred+", ["bevorzugt+"]],
+      ["preferred", ["bevorzugt"]],
+      ["congested", ["überfüllt", "ausgelastet"]],
+      ["standard", ["standard"]],
+    ],
+    newWorld: ["neu"],
+  },
+};
+
+/**
+ * URL of the world status page on a regional Lodestone site
+ * @param locale Lodestone site
+ * @returns World status page URL
+ */
+export function getWorldStatusUrl(locale: LodestoneLocale): string {
+  return `https://${locale}.finalfantasyxiv.com/lodestone/worldstatus/`;
+}
+
+/**
+ * Finds the status and population named in a piece of status text. Labels of
+ * the given locale are tried first, then the English ones, since localized
+ * sites may leave some labels untranslated.
+ * @param text Lowercase status text
+ * @param locale Lodestone site the text comes from
+ */
+export function matchStatusLabels(
+  text: string,
+  locale: LodestoneLocale,
+): {
+  status: WorldStatusType;
+  population: PopulationLevel;
+  isNewWorld: boolean;
+} {
+  const tables =
+    LOCALE_LABELS[locale] === ENGLISH_LABELS
+      ? [ENGLISH_LABELS]
+      : [LOCALE_LABELS[locale], ENGLISH_LABELS];
+  const find = <T>(
+    entries: (
+      labels: StatusLabels,
+    ) => ReadonlyArray<readonly [T, readonly string[]]>,
+  ): T | undefined => {
+    for (const labels of tables) {
+      const match = entries(labels).find(([, words]) =>
+        words.some((word) => text.includes(word)),
+      );
+      if (match) {
+        return match[0];
+      }
+    }
+    return undefined;
+  };
+
+  return {
+    status: find((labels) => labels.status) ?? "unknown",
+    population: find((labels) => labels.population) ?? "unknown",
+    isNewWorld: tables.some((labels) =>
+      labels.newWorld.some((word) => text.includes(word)),
+    ),
+  };
+}
@@ -0,0 +1,243 @@
+import debug from "debug";
+import { parse } from "node-html-parser";
+import type {
+  LodestoneLocale,
+  MaintenanceNoticeLink,
+  MaintenanceWindow,
+} from "../types/index.js";
+
+const log = debug("lodestone-world-status:maintenance");
+
+const MONTHS = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+
+// Offsets from UTC in minutes for the time zones used in notices
+const TIME_ZONE_OFFSETS: Readonly<Record<string, number>> = {
+  PST: -8 * 60,
+  PDT: -7 * 60,
+  GMT: 0,
+  UTC: 0,
+  BST: 60,
+  CET: 60,
+  CEST: 2 * 60,
+  JST: 9 * 60,
+  AEST: 10 * 60,
+  AEDT: 11 * 60,
+};
+
+// "Oct. 3, 2023 1:00 a.m." or "Oct. 3, 2023 1:00"
+const DATE_TIME = String.raw`([A-Za-z]{3,9})\.?\s+(\d{1,2}),\s*(\d{4})\s+(\d{1,2}):(\d{2})\s*([ap]\.?m\.?)?`;
+// "1:00 a.m." or "1:00", for an end time on the same day
+const TIME = String.raw`(\d{1,2}):(\d{2})\s*([ap]\.?m\.?)?`;
+const TIME_ZONE = String.raw`\(([A-Z]{2,4})\)`;
+
+const WINDOW_PATTERN = new RegExp(
+  String.raw`${DATE_TIME}\s*(?:${TIME_ZONE}\s*)?to\s+(?:${DATE_TIME}|${TIME})\s*${TIME_ZONE}`,
+  "i",
+);
+const START_PATTERN = new RegExp(String.raw`${DATE_TIME}\s*${TIME_ZONE}`, "i");
+
+/**
+ * URL of the maintenance news list. Notices are only read in English, so
+ * every locale other than "eu" uses the North American site.
+ * @param locale Lodestone site the client reads world status from
+ * @returns Maintenance news list URL
+ */
+export function getMaintenanceNewsUrl(locale: LodestoneLocale): string {
+  const site = locale === "eu" ? "eu" : "na";
+  return `https://${site}.finalfantasyxiv.com/lodestone/news/category/2`;
+}
+
+/**
+ * Parses the notices linked from the Lodestone maintenance news list
+ * @param html Maintenance news list page
+ * @param baseUrl URL of that page, to resolve the links against
+ * @returns Notices in the order they are listed, newest first
+ */
+export function parseMaintenanceList(
+  html: string,
+  baseUrl: string,
+): MaintenanceNoticeLink[] {
+  const root = parse(html);
+  const notices: MaintenanceNoticeLink[] = [];
+
+  for (const link of root.querySelectorAll("a.news__list--link")) {
+    const href = link.getAttribute("href");
+    const title = link.querySelector(".news__list--title");
+    if (!href || !title) {
+      continue;
+    }
+
+    const postedAt = /ldst_strftime\((\d+)/.exec(link.innerHTML)?.[1];
+    notices.push({
+      title: stripTag(title.text),
+      url: new URL(href, baseUrl).href,
+      postedAt: postedAt ? new Date(Number(postedAt) * 1000) : null,
+    });
+  }
+
+  log("Found %d maintenance notices", notices.length);
+  return notices;
+}
+
+/**
+ * Parses the scheduled window out of a Lodestone maintenance notice
+ * @param html Notice detail page
+ * @param url URL of that page, kept as the link to the notice
+ * @returns The window, or null if the notice has no date and time we can read
+ */
+export function parseMaintenanceNotice(
+  html: string,
+  url: string,
+): MaintenanceWindow | null {
+  const root = parse(html);
+  const heading =
+    root.querySelector(".news__header__title") ?? root.querySelector("h1");
+  const body = root.querySelector(".news__detail__wrapper");
+  if (!heading || !body) {
+    log("No notice found at %s", url);
+    return null;
+  }
+
+  // Notices are text broken up with <br>, where blank lines end sections and
+  // line breaks in the markup itself mean nothing
+  const text = parse(
+    body.innerHTML
+      .replace(/\s+/g, " ")
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(/<\/(p|div|ul|li)>/gi, "\n\n"),
+  ).text;
+  const sections = splitSections(text);
+  const schedule = (sections.get("date & time") ?? []).join(" ");
+  const times = parseSchedule(schedule);
+  if (!times) {
+    log("No readable date and time in notice at %s", url);
+    return null;
+  }
+
+  const affected = [...sections]
+    .filter(([name]) => name.startsWith("affected"))
+    .flatMap(([, lines]) => lines)
+    .map((line) => line.replace(/^[-*・•]\s*/, "").trim())
+    .filter((line) => line.length > 0);
+
+  return {
+    title: stripTag(heading.text),
+    url,
+    ...times,
+    affected,
+  };
+}
+
+/**
+ * Reads a window like "Oct. 3, 2023 1:00 a.m. to 9:00 a.m. (PDT)" as UTC
+ * dates; the first window in the text wins when it is given in several time
+ * zones
+ */
+function parseSchedule(
+  text: string,
+): Pick<MaintenanceWindow, "start" | "end"> | null {
+  const window = WINDOW_PATTERN.exec(text);
+  if (window) {
+    const [, ...groups] = window;
+    // The start shares the end's time zone unless it names its own
+    const zone = groups[16];
+    const start = toUtcDate(groups.slice(0, 6), groups[6] ?? zone);
+    const end = groups[7]
+      ? toUtcDate(groups.slice(7, 13), zone)
+      : toUtcDate([...groups.slice(0, 3), ...groups.slice(13, 16)], zone);
+    if (!start || !end) {
+      return null;
+    }
+
+    // An end time alone that is earlier than the start is on the next day
+    if (!groups[7] && end <= start) {
+      end.setUTCDate(end.getUTCDate() + 1);
+    }
+    return { start, end };
+  }
+
+  const start = START_PATTERN.exec(text);
+  if (start) {
+    const [, ...groups] = start;
+    const date = toUtcDate(groups.slice(0, 6), groups[6]);
+    return date ? { start: date, end: null } : null;
+  }
+
+  return null;
+}
+
+/**
+ * @param parts Month, day, year, hour, minute and optional a.m./p.m.
+ * @param zone Time zone abbreviation
+ */
+function toUtcDate(
+  [month, day, year, hour, minute, meridiem]: readonly (string | undefined)[],
+  zone: string | undefined,
+): Date | null {
+  const monthIndex = MONTHS.indexOf(month?.slice(0, 3).toLowerCase() ?? "");
+  const offset = TIME_ZONE_OFFSETS[zone?.toUpperCase() ?? ""];
+  if (monthIndex === -1 || offset === undefined) {
+    return null;
+  }
+
+  let hours = Number(hour) % (meridiem ? 12 : 24);
+  if (meridiem?.toLowerCase().startsWith("p")) {
+    hours += 12;
+  }
+
+  return new Date(
+    Date.UTC(Number(year), monthIndex, Number(day), hours, Number(minute)) -
+      offset * 60 * 1000,
+  );
+}
+
+/**
+ * Groups the lines of a notice under their "[Heading]" lines; a section ends
+ * at the next heading or blank line
+ * @returns Lines keyed by lowercase heading
+ */
+function splitSections(text: string): Map<string, string[]> {
+  const sections = new Map<string, string[]>();
+  let current: string[] | null = null;
+
+  for (const line of text.split("\n").map((line) => line.trim())) {
+    const heading = /^\[(.+)\]$/.exec(line);
+    if (heading) {
+      current = [];
+      sections.set(heading[1].toLowerCase(), current);
+    } else if (!line) {
+      // Headings are often followed by a blank line before their content
+      if (current && current.length > 0) {
+        current = null;
+      }
+    } else if (current) {
+      current.push(line);
+    }
+  }
+
+  return sections;
+}
+
+/**
+ * Removes the leading "[Maintenance]" style tag from a notice title and
+ * collapses the whitespace left by the markup
+ */
+function stripTag(title: string): string {
+  return title
+    .replace(/^\s*\[[^\]]+\]/, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
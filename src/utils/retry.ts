@@ -0,0 +1,184 @@
+import debug from "debug";
+import type { Clock, RetryPolicy } from "../types/index.js";
+import {
+  HttpError,
+  LodestoneError,
+  RETRYABLE_HTTP_STATUSES,
+} from "../errors/index.js";
+import { systemClock } from "./clock.js";
+
+const log = debug("lodestone-world-status:retry");
+
+/**
+ * Retry policy with every field filled in
+ */
+export type ResolvedRetryPolicy = Required<RetryPolicy>;
+
+/**
+ * Options for running an operation with retries
+ */
+export interface RetryOptions {
+  readonly policy: ResolvedRetryPolicy;
+  readonly clock?: Clock;
+  readonly random?: () => number;
+  readonly signal?: AbortSignal;
+}
+
+/**
+ * Policy used when retries are requested without further configuration
+ */
+export const DEFAULT_RETRY_POLICY: ResolvedRetryPolicy = {
+  maxAttempts: 3,
+  initialDelayMs: 500,
+  maxDelayMs: 10 * 1000,
+  backoffFactor: 2,
+  jitter: "full",
+  retryableStatuses: RETRYABLE_HTTP_STATUSES,
+};
+
+/**
+ * Policy that makes a single attempt and never retries
+ */
+export const NO_RETRY_POLICY: ResolvedRetryPolicy = {
+  ...DEFAULT_RETRY_POLICY,
+  maxAttempts: 1,
+};
+
+/**
+ * Fills in defaults for a partial retry policy and validates it
+ * @param policy Partial retry policy
+ * @returns Fully populated retry policy
+ */
+export function resolveRetryPolicy(policy: RetryPolicy): ResolvedRetryPolicy {
+  const resolved = { ...DEFAULT_RETRY_POLICY, ...policy };
+
+  if (resolved.maxAttempts <= 0 || !Number.isInteger(resolved.maxAttempts)) {
+    throw new Error(
+      `Retry maxAttempts must be a positive integer, got: ${resolved.maxAttempts}`,
+    );
+  }
+  if (resolved.initialDelayMs < 0 || resolved.maxDelayMs < 0) {
+    throw new Error("Retry delays must not be negative");
+  }
+  if (resolved.backoffFactor < 1) {
+    throw new Error(
+      `Retry backoffFactor must be at least 1, got: ${resolved.backoffFactor}`,
+    );
+  }
+
+  return resolved;
+}
+
+/**
+ * Checks whether a failure is worth retrying under the given policy.
+ * HTTP errors are checked against the policy's status list, which defaults to
+ * the same statuses that set `HttpError.retryable`; every other library error
+ * is retried exactly when its `retryable` flag is set
+ * @param error The error thrown by the failed attempt
+ * @param policy The retry policy in effect
+ * @returns True for network errors, timeouts and retryable HTTP statuses
+ */
+export function isRetryableError(
+  error: unknown,
+  policy: ResolvedRetryPolicy,
+): boolean {
+  if (error instanceof HttpError) {
+    return policy.retryableStatuses.includes(error.status);
+  }
+  return error instanceof LodestoneError && error.retryable;
+}
+
+/**
+ * Parses a Retry-After header value
+ * @param value Header value, either delay-seconds or an HTTP date
+ * @param now Current time in milliseconds
+ * @returns Delay in milliseconds, or null if the value is missing or invalid
+ */
+export function parseRetryAfter(
+  value: string | null,
+  now: number,
+): number | null {
+  if (value === null || value.trim() === "") {
+    return null;
+  }
+
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) {
+    return null;
+  }
+  return Math.max(0, date - now);
+}
+
+/**
+ * Computes the backoff delay before the next attempt
+ * @param attempt The attempt that just failed, starting at 1
+ * @param policy The retry policy in effect
+ * @param random Random source returning values in [0, 1)
+ * @returns Delay in milliseconds
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  policy: ResolvedRetryPolicy,
+  random: () => number = Math.random,
+): number {
+  const exponential =
+    policy.initialDelayMs * Math.pow(policy.backoffFactor, attempt - 1);
+  const capped = Math.min(policy.maxDelayMs, exponential);
+  return policy.jitter === "full" ? Math.floor(random() * capped) : capped;
+}
+
+/**
+ * Runs an operation, retrying retryable failures with exponential backoff
+ * @param operation The operation to run, given the current attempt number
+ * @param options Retry policy, clock, random source and abort signal
+ * @returns The result of the first successful attempt
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  options: RetryOptions,
+): Promise<T> {
+  const { policy, signal } = options;
+  const clock = options.clock ?? systemClock;
+  const random = options.random ?? Math.random;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt >= policy.maxAttempts || !isRetryableError(error, policy)) {
+        throw error;
+      }
+
+      let delayMs = computeBackoffDelay(attempt, policy, random);
+      if (error instanceof HttpError) {
+        const retryAfterMs = parseRetryAfter(error.retryAfter, clock.now());
+        if (retryAfterMs !== null) {
+          if (retryAfterMs > policy.maxDelayMs) {
+            log(
+              "Retry-After of %dms exceeds max delay of %dms - giving up",
+              retryAfterMs,
+              policy.maxDelayMs,
+            );
+            throw error;
+          }
+          delayMs = retryAfterMs;
+        }
+      }
+
+      log(
+        "Attempt %d/%d failed (%s) - retrying in %dms",
+        attempt,
+        policy.maxAttempts,
+        error instanceof Error ? error.message : "Unknown error",
+        delayMs,
+      );
+      // An abort during the backoff is reported by the next attempt
+      await clock.sleep(delayMs, signal).catch(() => {});
+    }
+  }
+}
@@ -1,40 +1,179 @@
 import debug from "debug";
 import { parse } from "node-html-parser";
+import type { HTMLElement } from "node-html-parser";
+import { findRegistryDataCenter } from "../registry/index.js";
 import type {
+  FetchHtmlOptions,
+  HttpTransport,
   WorldStatusRaw,
   DataCenter,
+  MatchedList,
   ParsedStatus,
+  ParseDiagnostics,
+  ParseOptions,
+  ParseResult,
   Region,
+  RejectedItem,
+  UnknownStatus,
+  LodestoneLocale,
+  WorldStatusType,
 } from "../types/index.js";
-import { createWorldName, createDataCenterName } from "../types/index.js";
+import {
+  createWorldName,
+  createDataCenterName,
+  isValidWorldName,
+} from "../types/index.js";
+import {
+  HttpError,
+  NetworkError,
+  RequestAbortedError,
+  RequestTimeoutError,
+  SchemaDriftError,
+} from "../errors/index.js";
+import { matchStatusLabels } from "./locales.js";
 
 const log = debug("lodestone-world-status:scraper");
 
+/**
+ * Default HTTP transport backed by the global fetch implementation
+ */
+export const globalFetchTransport: HttpTransport = {
+  fetch: (url, options) => fetch(url, options),
+};
+
 /**
  * Fetches HTML content from a URL
  */
-export async function fetchHtml(url: string): Promise<string> {
+export async function fetchHtml(
+  url: string,
+  options: FetchHtmlOptions = {},
+): Promise<string> {
+  const transport = options.transport ?? globalFetchTransport;
+  const request = createRequestSignal(url, options);
   log("Fetching HTML from: %s", url);
-  const response = await fetch(url);
 
-  if (!response.ok) {
-    log("HTTP error: %d %s", response.status, response.statusText);
-    throw new Error(`HTTP error! status: ${response.status}`);
+  try {
+    const response = await Promise.race([
+      transport.fetch(url, { signal: request.signal }).catch((error) => {
+        throw new NetworkError(url, error);
+      }),
+      request.cancelled,
+    ]);
+
+    if (!response.ok) {
+      log("HTTP error: %d %s", response.status, response.statusText);
+      throw new HttpError(
+        url,
+        response.status,
+        response.headers?.get("retry-after") ?? null,
+      );
+    }
+
+    const html = await Promise.race([
+      response.text().catch((error) => {
+        throw new NetworkError(url, error);
+      }),
+      request.cancelled,
+    ]);
+    log("Successfully fetched HTML (%d characters)", html.length);
+    return html;
+  } finally {
+    request.dispose();
   }
+}
 
-  const html = await response.text();
-  log("Successfully fetched HTML (%d characters)", html.length);
-  return html;
+/**
+ * Combines the caller's AbortSignal and timeout into a single signal. The
+ * returned `cancelled` promise rejects with the matching error so that
+ * transports which ignore the signal still can't hang the caller.
+ */
+function createRequestSignal(
+  url: string,
+  { signal, timeoutMs }: FetchHtmlOptions,
+): {
+  signal: AbortSignal;
+  cancelled: Promise<never>;
+  dispose: () => void;
+} {
+  if (signal?.aborted) {
+    log("Request to %s aborted before it started", url);
+    throw new RequestAbortedError(url, signal.reason);
+  }
+
+  const controller = new AbortController();
+  let cancel!: (error: Error) => void;
+  const cancelled = new Promise<never>((_, reject) => {
+    cancel = reject;
+  });
+  // Losing the race is expected; only the winner's rejection matters
+  cancelled.catch(() => {});
+
+  const onAbort = () => {
+    log("Request to %s aborted by caller", url);
+    cancel(new RequestAbortedError(url, signal?.reason));
+    controller.abort(signal?.reason);
+  };
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  const timer =
+    timeoutMs === undefined
+      ? undefined
+      : setTimeout(() => {
+          log("Request to %s timed out after %dms", url, timeoutMs);
+          const error = new RequestTimeoutError(url, timeoutMs);
+          cancel(error);
+          controller.abort(error);
+        }, timeoutMs);
+
+  return {
+    signal: controller.signal,
+    cancelled,
+    dispose: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    },
+  };
 }
 
 /**
  * Parses world status information from HTML content using semantic HTML structure
+ * @param html Lodestone world status page
+ * @param options Set `strict` to throw SchemaDriftError on implausible results,
+ * and `locale` to the Lodestone site the page comes from
+ * @returns Data centers with world status
+ */
+export function parseWorldStatus(
+  html: string,
+  options: ParseOptions = {},
+): DataCenter[] {
+  return parseWorldStatusWithDiagnostics(html, options).dataCenters;
+}
+
+/**
+ * Parses world status and reports what was seen and skipped along the way,
+ * so that markup changes on Lodestone can be noticed instead of silently
+ * producing an empty or partial result
+ * @param html Lodestone world status page
+ * @param options Set `strict` to throw SchemaDriftError on implausible results,
+ * and `locale` to the Lodestone site the page comes from
+ * @returns Data centers along with the parse diagnostics
  */
-export function parseWorldStatus(html: string): DataCenter[] {
+export function parseWorldStatusWithDiagnostics(
+  html: string,
+  options: ParseOptions = {},
+): ParseResult {
   log("Parsing HTML with semantic selectors (h2,h3,h4 + ul)");
   const root = parse(html);
+  const locale = options.locale ?? "na";
   const dataCenters: DataCenter[] = [];
   const processedDataCenters = new Set<string>();
+  const diagnostics = {
+    headings: [] as string[],
+    matchedLists: [] as MatchedList[],
+    rejectedItems: [] as RejectedItem[],
+    unknownStatuses: [] as UnknownStatus[],
+    unknownRegions: [] as string[],
+  };
 
   // Look for headings that might be data center names
   const headings = root.querySelectorAll("h2, h3, h4");
@@ -42,6 +181,7 @@ export function parseWorldStatus(html: string): DataCenter[] {
 
   for (const heading of headings) {
     const dcName = heading.text.trim();
+    diagnostics.headings.push(dcName);
 
     // Skip if we've already processed this data center
     if (processedDataCenters.has(dcName)) {
@@ -57,14 +197,27 @@ export function parseWorldStatus(html: string): DataCenter[] {
       if (sibling.tagName === "UL") {
         const items = sibling.querySelectorAll("li");
         const worlds: WorldStatusRaw[] = [];
+        const rejected: string[] = [];
         log("Found list with %d items under %s", items.length, dcName);
 
         for (const item of items) {
+          const world = parseWorldListItem(item, locale);
+          if (world) {
+            log(
+              "Matched world list item: %s -> %s (%s)",
+              world.name,
+              world.status,
+              world.statusText,
+            );
+            worlds.push(world);
+            continue;
+          }
+
           const text = item.text.trim();
 
           // Pattern: "WorldName Status" or similar
           const match = text.match(
-            /^([A-Za-z\s]+?)\s+(Standard|Preferred|Congested|Preferred\+)$/,
+            /^([A-Za-z\s]+?)\s+(New|Standard|Preferred|Congested|Preferred\+)$/,
           );
           if (match) {
             log(
@@ -77,6 +230,9 @@ export function parseWorldStatus(html: string): DataCenter[] {
               name: match[1].trim(),
               statusText: match[2].trim(),
             });
+          } else {
+            log("Rejected list item under %s: %s", dcName, text);
+            rejected.push(text);
           }
         }
 
@@ -87,19 +243,55 @@ export function parseWorldStatus(html: string): DataCenter[] {
             worlds.length,
             dcName,
           );
-          const parsedWorlds = worlds.map((w) => ({
-            name: createWorldName(w.name),
-            ...parseStatusText(w.statusText),
-          }));
+          const parsedWorlds = worlds.map((w) => {
+            const parsed = parseStatusText(w.statusText, locale);
+            const status = w.status ?? parsed.status;
+            // Plain text never carries a status, so only flag it when nothing matched
+            const unrecognized =
+              w.status === undefined
+                ? status === "unknown" && parsed.category === "unknown"
+                : status === "unknown" || parsed.category === "unknown";
+            if (unrecognized) {
+              diagnostics.unknownStatuses.push({
+                world: w.name,
+                dataCenter: dcName,
+                text: w.statusText,
+              });
+            }
+            return {
+              name: createWorldName(w.name),
+              status,
+              population: parsed.population,
+              category: parsed.category,
+              newCharacterCreation:
+                w.newCharacterCreation ?? parsed.newCharacterCreation,
+            };
+          });
+
+          const region = inferRegion(dcName);
+          if (region === "unknown") {
+            diagnostics.unknownRegions.push(dcName);
+          }
 
           dataCenters.push({
             name: createDataCenterName(dcName),
-            region: inferRegion(dcName),
+            region,
             worlds: parsedWorlds,
           });
 
+          diagnostics.matchedLists.push({
+            heading: dcName,
+            items: items.length,
+            worlds: worlds.length,
+          });
           processedDataCenters.add(dcName);
         }
+
+        // Lists without any worlds are reported too, since a data center
+        // whose markup changed looks just like one
+        diagnostics.rejectedItems.push(
+          ...rejected.map((text) => ({ heading: dcName, text })),
+        );
         break;
       }
       sibling = sibling.nextElementSibling;
@@ -107,78 +299,145 @@ export function parseWorldStatus(html: string): DataCenter[] {
   }
 
   log("World status parsing complete: %d data centers", dataCenters.length);
-  return dataCenters;
+
+  if (options.strict) {
+    const reasons = findDriftReasons(dataCenters, diagnostics);
+    if (reasons.length > 0) {
+      log("Schema drift detected: %s", reasons.join("; "));
+      throw new SchemaDriftError(reasons, diagnostics, { url: options.url });
+    }
+  }
+
+  return { dataCenters, diagnostics };
 }
 
 /**
- * Parses status text into structured data
+ * Server status icon classes on the Lodestone world status page
  */
-export function parseStatusText(statusText: string): ParsedStatus {
-  const text = statusText.toLowerCase().trim();
-
-  // Determine server status (only from explicit maintenance indicators)
-  let status: "online" | "maintenance" | "partial-maintenance" | "unknown" =
-    "unknown";
+const STATUS_ICONS: Readonly<Record<string, WorldStatusType>> = {
+  "world-ic__1": "online",
+  "world-ic__2": "partial-maintenance",
+  "world-ic__3": "maintenance",
+};
 
-  if (text.includes("partial maintenance")) {
-    status = "partial-maintenance";
-  } else if (text.includes("maintenance")) {
-    status = "maintenance";
+/**
+ * Reads a world from the list item markup used on the Lodestone page, where
+ * the server status and character creation availability are icons next to
+ * the world name and category
+ * @returns The world, or null if the item doesn't use that markup
+ */
+function parseWorldListItem(
+  item: HTMLElement,
+  locale: LodestoneLocale,
+): WorldStatusRaw | null {
+  const name = item.querySelector(".world-list__world_name")?.text.trim();
+  if (!name || !isValidWorldName(name)) {
+    return null;
   }
 
-  // Determine population status
-  let population:
-    | "standard"
-    | "preferred"
-    | "congested"
-    | "preferred+"
-    | "unknown" = "unknown";
-  let newCharacterCreation = true;
-
-  if (text.includes("preferred+")) {
-    population = "preferred+";
-  } else if (text.includes("preferred")) {
-    population = "preferred";
-  } else if (text.includes("congested")) {
-    population = "congested";
+  const category =
+    item.querySelector(".world-list__world_category")?.text.trim() ?? "";
+  const statusIcon = item.querySelector(".world-list__status_icon i");
+  const tooltip = statusIcon?.getAttribute("data-tooltip")?.trim() ?? "";
+  const iconClass = statusIcon?.classList.value.find(
+    (className) => className in STATUS_ICONS,
+  );
+  const statusText = `${tooltip} ${category}`.trim();
+
+  const createIcon = item.querySelector(".world-list__create_character i");
+  let newCharacterCreation: boolean | undefined;
+  if (createIcon?.classList.contains("world-ic__unavailable")) {
     newCharacterCreation = false;
-  } else if (text.includes("standard")) {
-    population = "standard";
+  } else if (createIcon?.classList.contains("world-ic__available")) {
+    newCharacterCreation = true;
   }
 
   return {
-    status,
-    population,
+    name,
+    statusText,
+    status: iconClass
+      ? STATUS_ICONS[iconClass]
+      : parseStatusText(tooltip, locale).status,
     newCharacterCreation,
   };
 }
 
 /**
- * Infers region from data center name
+ * Lists the ways a parse result looks implausible for the real Lodestone page
  */
-function inferRegion(dcName: string): Region {
-  const name = dcName.toLowerCase();
-
-  // North American data centers
-  if (["aether", "crystal", "dynamis", "primal"].includes(name)) {
-    return "na";
+function findDriftReasons(
+  dataCenters: readonly DataCenter[],
+  diagnostics: ParseDiagnostics,
+): string[] {
+  const reasons: string[] = [];
+  if (dataCenters.length === 0) {
+    reasons.push(
+      `no data centers found among ${diagnostics.headings.length} headings`,
+    );
   }
 
-  // European data centers
-  if (["chaos", "light"].includes(name)) {
-    return "eu";
+  // Other lists on the page, like the data center category tabs under
+  // "Server Status", are expected to have items that aren't worlds
+  const matched = new Set(
+    diagnostics.matchedLists.map(({ heading }) => heading),
+  );
+  const knownWithoutWorlds = [
+    ...new Set(
+      diagnostics.headings.filter(
+        (heading) => !matched.has(heading) && findRegistryDataCenter(heading),
+      ),
+    ),
+  ];
+  const rejectedItems = diagnostics.rejectedItems.filter(
+    ({ heading }) =>
+      matched.has(heading) || knownWithoutWorlds.includes(heading),
+  );
+  if (rejectedItems.length > 0) {
+    reasons.push(`${rejectedItems.length} list items did not look like worlds`);
   }
-
-  // Japanese data centers
-  if (["elemental", "gaia", "mana", "meteor"].includes(name)) {
-    return "jp";
+  if (knownWithoutWorlds.length > 0) {
+    reasons.push(`no worlds found for ${knownWithoutWorlds.join(", ")}`);
   }
-
-  // Oceania data centers
-  if (["materia"].includes(name)) {
-    return "oc";
+  if (diagnostics.unknownStatuses.length > 0) {
+    reasons.push(
+      `${diagnostics.unknownStatuses.length} worlds had unrecognized status text`,
+    );
+  }
+  if (diagnostics.unknownRegions.length > 0) {
+    reasons.push(
+      `no known region for ${diagnostics.unknownRegions.join(", ")}`,
+    );
   }
+  return reasons;
+}
+
+/**
+ * Parses status text into structured data
+ * @param statusText Status and world category labels
+ * @param locale Lodestone site the labels come from
+ */
+export function parseStatusText(
+  statusText: string,
+  locale: LodestoneLocale = "na",
+): ParsedStatus {
+  const text = statusText.toLowerCase().trim();
+
+  // Server status only comes from explicit status words
+  const { status, population, isNewWorld } = matchStatusLabels(text, locale);
+
+  return {
+    status,
+    population,
+    // New worlds show "New" in place of their population
+    category: isNewWorld ? "new" : population,
+    newCharacterCreation: population !== "congested",
+  };
+}
 
+/**
+ * Infers region from data center name using the world registry
+ */
+function inferRegion(dcName: string): Region {
   // Default to unknown if data center not recognized
-  return "unknown";
+  return findRegistryDataCenter(dcName)?.region ?? "unknown";
 }
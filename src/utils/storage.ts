@@ -0,0 +1,181 @@
+import debug from "debug";
+import { mkdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type {
+  CacheEntry,
+  CacheStorageAdapter,
+  DataCenter,
+  PopulationLevel,
+  Region,
+  WorldCategory,
+  WorldStatus,
+  WorldStatusType,
+} from "../types/index.js";
+import {
+  createDataCenterName,
+  createWorldName,
+  POPULATION_LEVELS,
+  REGIONS,
+  WORLD_CATEGORIES,
+  WORLD_STATUS_TYPES,
+} from "../types/index.js";
+import { isNotFound, isRecord } from "./guards.js";
+
+const log = debug("lodestone-world-status:storage");
+
+/**
+ * Version of the serialized cache entry format
+ */
+export const CACHE_ENTRY_VERSION = 1;
+
+/**
+ * Storage adapter that keeps values in a Map, useful for tests and as a
+ * reference for custom adapters
+ */
+export class MemoryCacheStorage implements CacheStorageAdapter {
+  private readonly values = new Map<string, string>();
+
+  async get(key: string): Promise<string | null> {
+    return this.values.get(key) ?? null;
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    this.values.set(key, value);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.values.delete(key);
+  }
+}
+
+/**
+ * Storage adapter that writes each key to a JSON file in a directory
+ */
+export class FileCacheStorage implements CacheStorageAdapter {
+  private readonly directory: string;
+
+  /**
+   * @param directory Directory to store cache files in, created on first write
+   */
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async get(key: string): Promise<string | null> {
+    try {
+      return await readFile(this.pathFor(key), "utf8");
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    const path = this.pathFor(key);
+    const tempPath = `${path}.${process.pid}.tmp`;
+    await mkdir(this.directory, { recursive: true });
+    // Write then rename so readers never see a partially written file
+    await writeFile(tempPath, value, "utf8");
+    await rename(tempPath, path);
+    log("Wrote %d characters to %s", value.length, path);
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.pathFor(key), { force: true });
+  }
+
+  private pathFor(key: string): string {
+    return join(this.directory, `${key.replace(/[^a-zA-Z0-9_-]/g, "_")}.json`);
+  }
+}
+
+/**
+ * Serializes a world status cache entry for storage
+ * @param entry Cache entry to serialize
+ * @returns JSON string including the format version and stored timestamp
+ */
+export function serializeWorldStatusEntry(
+  entry: CacheEntry<readonly DataCenter[]>,
+): string {
+  return JSON.stringify({
+    version: CACHE_ENTRY_VERSION,
+    storedAt: entry.storedAt,
+    data: entry.data,
+  });
+}
+
+/**
+ * Deserializes a stored world status cache entry, validating every field and
+ * re-creating the branded world and data center names
+ * @param json JSON string produced by serializeWorldStatusEntry
+ * @returns Cache entry, or null if the value is malformed or from another version
+ */
+export function deserializeWorldStatusEntry(
+  json: string,
+): CacheEntry<DataCenter[]> | null {
+  try {
+    const parsed: unknown = JSON.parse(json);
+    if (
+      !isRecord(parsed) ||
+      parsed.version !== CACHE_ENTRY_VERSION ||
+      typeof parsed.storedAt !== "number" ||
+      !Array.isArray(parsed.data)
+    ) {
+      log("Ignoring stored entry with unexpected shape or version");
+      return null;
+    }
+
+    return {
+      storedAt: parsed.storedAt,
+      data: parsed.data.map(toDataCenter),
+    };
+  } catch (error) {
+    log(
+      "Ignoring unreadable stored entry: %s",
+      error instanceof Error ? error.message : "Unknown error",
+    );
+    return null;
+  }
+}
+
+function toDataCenter(value: unknown): DataCenter {
+  if (
+    !isRecord(value) ||
+    typeof value.name !== "string" ||
+    !REGIONS.includes(value.region as Region) ||
+    !Array.isArray(value.worlds)
+  ) {
+    throw new Error("Invalid stored data center");
+  }
+
+  return {
+    name: createDataCenterName(value.name),
+    region: value.region as Region,
+    worlds: value.worlds.map(toWorldStatus),
+  };
+}
+
+function toWorldStatus(value: unknown): WorldStatus {
+  if (
+    !isRecord(value) ||
+    typeof value.name !== "string" ||
+    !WORLD_STATUS_TYPES.includes(value.status as WorldStatusType) ||
+    !POPULATION_LEVELS.includes(value.population as PopulationLevel) ||
+    (value.category !== undefined &&
+      !WORLD_CATEGORIES.includes(value.category as WorldCategory)) ||
+    typeof value.newCharacterCreation !== "boolean"
+  ) {
+    throw new Error("Invalid stored world");
+  }
+
+  return {
+    name: createWorldName(value.name),
+    status: value.status as WorldStatusType,
+    population: value.population as PopulationLevel,
+    // Snapshots saved before categories existed only have the population
+    category: (value.category ?? value.population) as WorldCategory,
+    newCharacterCreation: value.newCharacterCreation,
+  };
+}
@@ -0,0 +1,286 @@
+import debug from "debug";
+import { EventEmitter } from "node:events";
+import { diffWorldStatus, systemClock } from "../utils/index.js";
+import type {
+  Clock,
+  DataCenter,
+  RequestOptions,
+  WatchOptions,
+  WorldStatusChange,
+  WorldStatusSource,
+  WorldStatusWatcherEvents,
+} from "../types/index.js";
+
+const log = debug("lodestone-world-status:watcher");
+
+/**
+ * Detects world status changes between snapshots and emits typed events
+ *
+ * Every change is emitted as a `change` event and as an event named after its
+ * type (`status`, `population`, `world-added`, ...). A `changes` event with
+ * the full list follows whenever a snapshot differs from the previous one.
+ * The first snapshot only establishes the baseline.
+ *
+ * Snapshots can be fed in manually with `check()`/`update()`, or polled on an
+ * interval with `start()`/`stop()` or by iterating the watcher with `for await`.
+ */
+export class WorldStatusWatcher extends EventEmitter<WorldStatusWatcherEvents> {
+  private readonly source: WorldStatusSource;
+  private readonly intervalMs: number;
+  private readonly maxBackoffMs: number;
+  private readonly clock: Clock;
+  private readonly externalSignal: AbortSignal | undefined;
+  private snapshot: readonly DataCenter[] | null = null;
+  private controller: AbortController | null = null;
+  private loop: Promise<void> | null = null;
+  private consecutiveFailures: number = 0;
+
+  /**
+   * @param source Client (or other source) to fetch snapshots from
+   * @param options Polling interval, error backoff, stop signal and clock
+   */
+  constructor(source: WorldStatusSource, options: WatchOptions = {}) {
+    super();
+    this.source = source;
+
+    const intervalMs =
+      options.intervalMs ??
+      source.getCacheStats?.().expirationMs ??
+      5 * 60 * 1000;
+    if (intervalMs <= 0 || !Number.isInteger(intervalMs)) {
+      throw new Error(
+        `Watch interval must be a positive integer, got: ${intervalMs}`,
+      );
+    }
+    this.intervalMs = intervalMs;
+    this.maxBackoffMs = Math.max(
+      intervalMs,
+      options.maxBackoffMs ?? 10 * intervalMs,
+    );
+    this.clock = options.clock ?? systemClock;
+    this.externalSignal = options.signal;
+  }
+
+  /**
+   * Fetch a snapshot from the source and emit any changes since the last one
+   * @param options Optional AbortSignal and timeout override for the fetch
+   * @returns Promise resolving to the detected changes
+   */
+  async check(options: RequestOptions = {}): Promise<WorldStatusChange[]> {
+    const current = await this.source.getAllWorlds(options);
+    return this.update(current);
+  }
+
+  /**
+   * Compare a snapshot against the last one and emit any changes
+   * @param current The new snapshot
+   * @returns The detected changes
+   */
+  update(current: readonly DataCenter[]): WorldStatusChange[] {
+    const previous = this.snapshot;
+    this.snapshot = current;
+
+    if (!previous) {
+      log("Recorded baseline snapshot with %d data centers", current.length);
+      return [];
+    }
+
+    // Cached snapshots are returned by reference, so nothing can have changed
+    if (previous === current) {
+      return [];
+    }
+
+    const changes = diffWorldStatus(previous, current);
+    log("Detected %d changes", changes.length);
+
+    for (const change of changes) {
+      this.emit("change", change);
+      (this.emit as (event: string, change: WorldStatusChange) => boolean)(
+        change.type,
+        change,
+      );
+    }
+    if (changes.length > 0) {
+      this.emit("changes", changes, current);
+    }
+
+    return changes;
+  }
+
+  /**
+   * Get the most recent snapshot
+   * @returns The last snapshot seen, or null before the first one
+   */
+  getSnapshot(): readonly DataCenter[] | null {
+    return this.snapshot;
+  }
+
+  /**
+   * Forget the last snapshot so the next one becomes the new baseline
+   */
+  reset(): void {
+    this.snapshot = null;
+  }
+
+  /**
+   * Check if the watcher is currently polling
+   * @returns True between start() and stop()
+   */
+  isRunning(): boolean {
+    return this.controller !== null;
+  }
+
+  /**
+   * Start polling immediately and then on every interval. Calling start on
+   * a running watcher has no effect.
+   */
+  start(): void {
+    if (this.controller) {
+      return;
+    }
+    if (this.externalSignal?.aborted) {
+      log("Not starting - stop signal already aborted");
+      return;
+    }
+
+    const controller = new AbortController();
+    this.controller = controller;
+    this.consecutiveFailures = 0;
+    this.externalSignal?.addEventListener("abort", this.onExternalAbort, {
+      once: true,
+    });
+
+    log("Started polling every %dms", this.intervalMs);
+    this.emit("start");
+    this.loop = this.poll(controller.signal);
+  }
+
+  /**
+   * Stop polling, cancelling any fetch in progress
+   * @returns Promise resolving once the polling loop has exited
+   */
+  async stop(): Promise<void> {
+    const controller = this.controller;
+    if (!controller) {
+      return;
+    }
+
+    this.controller = null;
+    this.externalSignal?.removeEventListener("abort", this.onExternalAbort);
+    controller.abort();
+    await this.loop;
+    this.loop = null;
+
+    log("Stopped polling");
+    this.emit("stop");
+  }
+
+  /**
+   * Iterate over every polled snapshot until the watcher stops. Iterating a
+   * stopped watcher starts it, and leaving the loop early stops it again.
+   */
+  [Symbol.asyncIterator](): AsyncIterableIterator<readonly DataCenter[]> {
+    const queue: (readonly DataCenter[])[] = [];
+    let waiting:
+      | ((result: IteratorResult<readonly DataCenter[]>) => void)
+      | null = null;
+    const startedByIterator = !this.isRunning();
+
+    const onSnapshot = (snapshot: readonly DataCenter[]) => {
+      if (waiting) {
+        const resolve = waiting;
+        waiting = null;
+        resolve({ value: snapshot, done: false });
+      } else {
+        queue.push(snapshot);
+      }
+    };
+    const finish = () => {
+      this.off("snapshot", onSnapshot);
+      this.off("stop", finish);
+      if (waiting) {
+        const resolve = waiting;
+        waiting = null;
+        resolve({ value: undefined, done: true });
+      }
+    };
+
+    this.on("snapshot", onSnapshot);
+    this.on("stop", finish);
+    if (startedByIterator) {
+      this.start();
+    }
+
+    const iterator: AsyncIterableIterator<readonly DataCenter[]> = {
+      next: () => {
+        const snapshot = queue.shift();
+        if (snapshot) {
+          return Promise.resolve({ value: snapshot, done: false });
+        }
+        if (!this.isRunning()) {
+          finish();
+          return Promise.resolve({ value: undefined, done: true });
+        }
+        return new Promise((resolve) => {
+          waiting = resolve;
+        });
+      },
+      return: async () => {
+        finish();
+        if (startedByIterator) {
+          await this.stop();
+        }
+        return { value: undefined, done: true };
+      },
+      [Symbol.asyncIterator]: () => iterator,
+    };
+    return iterator;
+  }
+
+  private readonly onExternalAbort = () => {
+    void this.stop();
+  };
+
+  private async poll(signal: AbortSignal): Promise<void> {
+    while (!signal.aborted) {
+      try {
+        const current = await this.source.getAllWorlds({ signal });
+        this.consecutiveFailures = 0;
+        this.emit("snapshot", current);
+        this.update(current);
+      } catch (error) {
+        if (signal.aborted) {
+          break;
+        }
+        this.consecutiveFailures++;
+        log(
+          "Poll failed (%d in a row): %s",
+          this.consecutiveFailures,
+          error instanceof Error ? error.message : "Unknown error",
+        );
+        // Unhandled "error" events throw, which would kill the polling loop
+        if (this.listenerCount("error") > 0) {
+          this.emit("error", error);
+        }
+      }
+
+      const delayMs = this.nextDelay();
+      log("Next poll in %dms", delayMs);
+      await this.clock.sleep(delayMs, signal).catch(() => {});
+    }
+  }
+
+  private nextDelay(): number {
+    if (this.consecutiveFailures > 0) {
+      return Math.min(
+        this.maxBackoffMs,
+        this.intervalMs * Math.pow(2, this.consecutiveFailures),
+      );
+    }
+
+    // Polling before the cache expires would only return the same snapshot
+    const untilExpiration =
+      this.source.getCacheStats?.().timeUntilExpirationMs ?? 0;
+    return Math.max(this.intervalMs, untilExpiration);
+  }
+}
@@ -0,0 +1,323 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  AlertRuleEngine,
+  WorldStatusWatcher,
+  parseAlertRules,
+} from "../src/index.js";
+import type { AlertRule, DataCenter } from "../src/index.js";
+import {
+  createTestDataCenter,
+  createTestWorld,
+  readFixture,
+} from "./test-helpers.js";
+
+const MINUTE = 60 * 1000;
+
+const RULES = parseAlertRules(readFixture("alert-rules.json"));
+
+function snapshot({
+  adamantoise = "online",
+  congested = 0,
+  light = true,
+}: {
+  adamantoise?: "online" | "maintenance";
+  congested?: number;
+  light?: boolean;
+} = {}): DataCenter[] {
+  const aether = ["Cactuar", "Faerie", "Gilgamesh", "Jenova"].map(
+    (name, index) =>
+      createTestWorld(
+        name,
+        "online",
+        index < congested ? "congested" : "standard",
+      ),
+  );
+  return [
+    createTestDataCenter("Aether", "na", [
+      createTestWorld("Adamantoise", adamantoise),
+      ...aether,
+    ]),
+    ...(light
+      ? [createTestDataCenter("Light", "eu", [createTestWorld("Lich")])]
+      : []),
+  ];
+}
+
+describe("AlertRuleEngine", () => {
+  let engine: AlertRuleEngine;
+
+  beforeEach(() => {
+    engine = new AlertRuleEngine(RULES);
+  });
+
+  it("should fire only after a world has been in maintenance long enough", () => {
+    engine.evaluate(snapshot(), 0);
+    expect(
+      engine.evaluate(snapshot({ adamantoise: "maintenance" }), MINUTE),
+    ).toEqual([]);
+    expect(
+      engine.evaluate(snapshot({ adamantoise: "maintenance" }), 20 * MINUTE),
+    ).toEqual([]);
+
+    const [event] = engine.evaluate(
+      snapshot({ adamantoise: "maintenance" }),
+      31 * MINUTE,
+    );
+
+    expect(event).toEqual({
+      type: "fire",
+      rule: expect.objectContaining({ id: "na-long-maintenance" }),
+      matches: ["Adamantoise"],
+      firedAt: 31 * MINUTE,
+      at: 31 * MINUTE,
+    });
+    expect(engine.getFiring()).toEqual(["na-long-maintenance"]);
+  });
+
+  it("should resolve with the matches from when the rule fired", () => {
+    engine.evaluate(snapshot({ adamantoise: "maintenance" }), 0);
+    engine.evaluate(snapshot({ adamantoise: "maintenance" }), 30 * MINUTE);
+
+    expect(engine.evaluate(snapshot(), 45 * MINUTE)).toEqual([
+      {
+        type: "resolve",
+        rule: expect.objectContaining({ id: "na-long-maintenance" }),
+        matches: ["Adamantoise"],
+        firedAt: 30 * MINUTE,
+        at: 45 * MINUTE,
+      },
+    ]);
+    expect(engine.getFiring()).toEqual([]);
+  });
+
+  it("should restart the maintenance timer when a world comes back online", () => {
+    engine.evaluate(snapshot({ adamantoise: "maintenance" }), 0);
+    engine.evaluate(snapshot(), 20 * MINUTE);
+    engine.evaluate(snapshot({ adamantoise: "maintenance" }), 25 * MINUTE);
+
+    expect(
+      engine.evaluate(snapshot({ adamantoise: "maintenance" }), 40 * MINUTE),
+    ).toEqual([]);
+  });
+
+  it("should fire when more than a share of a data center is congested", () => {
+    // Adamantoise makes five worlds, so two congested is not more than half
+    expect(engine.evaluate(snapshot({ congested: 2 }), 0)).toEqual([]);
+
+    const [event] = engine.evaluate(snapshot({ congested: 3 }), MINUTE);
+
+    expect(event).toMatchObject({
+      type: "fire",
+      rule: { id: "aether-congested" },
+      matches: ["Cactuar", "Faerie", "Gilgamesh"],
+    });
+  });
+
+  it("should not fire again during the cooldown", () => {
+    engine.evaluate(snapshot({ congested: 3 }), 0);
+    engine.evaluate(snapshot(), 10 * MINUTE);
+
+    expect(engine.evaluate(snapshot({ congested: 4 }), 20 * MINUTE)).toEqual(
+      [],
+    );
+    expect(engine.getFiring()).toEqual([]);
+    // Still matching once the cooldown is over
+    expect(
+      engine.evaluate(snapshot({ congested: 4 }), 60 * MINUTE),
+    ).toMatchObject([{ type: "fire", rule: { id: "aether-congested" } }]);
+  });
+
+  it("should fire when a data center disappears from the page", () => {
+    engine.evaluate(snapshot(), 0);
+
+    expect(engine.evaluate(snapshot({ light: false }), MINUTE)).toMatchObject([
+      { type: "fire", rule: { id: "datacenter-missing" }, matches: ["Light"] },
+    ]);
+    expect(engine.evaluate(snapshot(), 2 * MINUTE)).toMatchObject([
+      { type: "resolve", rule: { id: "datacenter-missing" } },
+    ]);
+  });
+
+  it("should fire when a named data center is missing", () => {
+    const named = new AlertRuleEngine([
+      { id: "no-shadow", type: "datacenter-missing", dataCenter: "Shadow" },
+    ]);
+
+    expect(named.evaluate(snapshot(), 0)).toMatchObject([
+      { type: "fire", matches: ["Shadow"] },
+    ]);
+  });
+
+  it("should only consider worlds in the rule's region", () => {
+    const eu = new AlertRuleEngine([
+      {
+        id: "eu-maintenance",
+        type: "world-status",
+        region: "eu",
+        status: "maintenance",
+      },
+    ]);
+
+    expect(eu.evaluate(snapshot({ adamantoise: "maintenance" }), 0)).toEqual(
+      [],
+    );
+  });
+
+  it("should emit fire and resolve events", () => {
+    const onFire = vi.fn();
+    const onResolve = vi.fn();
+    engine.on("fire", onFire);
+    engine.on("resolve", onResolve);
+
+    engine.evaluate(snapshot({ congested: 3 }), 0);
+    engine.evaluate(snapshot(), MINUTE);
+
+    expect(onFire).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "fire" }),
+    );
+    expect(onResolve).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "resolve" }),
+    );
+  });
+
+  it("should evaluate every snapshot a watcher polls", () => {
+    const watcher = new WorldStatusWatcher({ getAllWorlds: vi.fn() });
+    const onFire = vi.fn();
+    engine.on("fire", onFire);
+    const detach = engine.attach(watcher);
+
+    watcher.emit("snapshot", snapshot({ congested: 3 }));
+    detach();
+    watcher.emit("snapshot", snapshot());
+
+    expect(onFire).toHaveBeenCalledTimes(1);
+    expect(engine.getFiring()).toEqual(["aether-congested"]);
+  });
+});
+
+describe("parseAlertRules", () => {
+  it("should read a rules array or an object with one", () => {
+    expect(RULES.map((rule) => rule.id)).toEqual([
+      "na-long-maintenance",
+      "aether-congested",
+      "datacenter-missing",
+    ]);
+    expect(
+      parseAlertRules([{ id: "any", type: "datacenter-missing" }]),
+    ).toHaveLength(1);
+  });
+
+  it.each([
+    [
+      { rules: "nope" },
+      "Alert rule config must be an array or have a rules array",
+    ],
+    [[{ type: "datacenter-missing" }], "Alert rule 0 must have an id"],
+    [
+      [
+        { id: "a", type: "datacenter-missing" },
+        { id: "a", type: "datacenter-missing" },
+      ],
+      'Alert rule "a" is defined more than once',
+    ],
+    [
+      [{ id: "a", type: "weather" }],
+      'Alert rule "a" type must be one of world-status, population-share, datacenter-missing, got: weather',
+    ],
+    [
+      [{ id: "a", type: "world-status", status: ["online", "closed"] }],
+      'Alert rule "a" status must be one of online, maintenance, partial-maintenance, unknown, got: closed',
+    ],
+    [
+      [{ id: "a", type: "world-status" }],
+      'Alert rule "a" status must be one of',
+    ],
+    [
+      [
+        {
+          id: "a",
+          type: "population-share",
+          population: "congested",
+          above: 1,
+        },
+      ],
+      'Alert rule "a" share must be at least 0 and below 1, got: 1',
+    ],
+    [
+      [{ id: "a", type: "datacenter-missing", cooldownMs: -1 }],
+      'Alert rule "a" cooldown must be a non-negative integer, got: -1',
+    ],
+    [
+      [{ id: "a", type: "datacenter-missing", region: "moon" }],
+      'Alert rule "a" region must be one of na, eu, jp, oc, unknown, got: moon',
+    ],
+    [
+      [{ id: "a", type: "datacenter-missing", description: 42 }],
+      'Alert rule "a" description must be a string',
+    ],
+    [
+      [{ id: "a", type: "world-status", status: [] }],
+      'Alert rule "a" status must be one of online, maintenance, partial-maintenance, unknown, got: []',
+    ],
+    [
+      [{ id: "a", type: "datacenter-missing", dataCenter: " " }],
+      'Alert rule "a" data center must be a non-empty string',
+    ],
+    [
+      [
+        {
+          id: "a",
+          type: "datacenter-missing",
+          dataCenter: "Aether",
+          region: "na",
+        },
+      ],
+      'Alert rule "a" can\'t have both a data center and a region',
+    ],
+    [
+      [
+        {
+          id: "a",
+          type: "world-status",
+          status: "maintenance",
+          dataCenter: "aether",
+          region: "eu",
+        },
+      ],
+      'Alert rule "a" data center Aether is not in region eu',
+    ],
+  ])("should reject malformed config %#", (config, message) => {
+    expect(() => parseAlertRules(config)).toThrow(message);
+  });
+
+  it("should keep only the fields a rule type uses", () => {
+    const [rule] = parseAlertRules([
+      {
+        id: "a",
+        type: "datacenter-missing",
+        description: "Aether gone",
+        dataCenter: "Aether",
+        status: "maintenance",
+      },
+    ]);
+
+    expect(rule).toEqual({
+      id: "a",
+      type: "datacenter-missing",
+      description: "Aether gone",
+      dataCenter: "Aether",
+    });
+    expect(rule).not.toHaveProperty("status");
+  });
+
+  it("should validate rules given to the engine directly", () => {
+    expect(
+      () =>
+        new AlertRuleEngine([
+          { id: "a", type: "world-status", status: "maintenance", forMs: 1.5 },
+        ] as AlertRule[]),
+    ).toThrow(
+      'Alert rule "a" duration must be a non-negative integer, got: 1.5',
+    );
+  });
+});
@@ -0,0 +1,257 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  CallbackNotifier,
+  CharacterCreationAlerts,
+  HttpError,
+  NetworkError,
+  WebhookNotifier,
+  WorldStatusWatcher,
+  createDataCenterName,
+  createWorldName,
+} from "../src/index.js";
+import type { CharacterCreationAlert, DataCenter } from "../src/index.js";
+import {
+  createTestDataCenter,
+  createTestResponse,
+  createTestTransport,
+  createTestWorld,
+} from "./test-helpers.js";
+
+function snapshot(balmungOpen: boolean, zalera = true): DataCenter[] {
+  return [
+    createTestDataCenter("Crystal", "na", [
+      createTestWorld(
+        "Balmung",
+        "online",
+        balmungOpen ? "preferred" : "congested",
+        balmungOpen,
+      ),
+      createTestWorld("Zalera", "online", "standard", zalera),
+    ]),
+  ];
+}
+
+// Lets notifier promises settle
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe("CharacterCreationAlerts", () => {
+  let watcher: WorldStatusWatcher;
+
+  beforeEach(() => {
+    watcher = new WorldStatusWatcher({ getAllWorlds: vi.fn() });
+    watcher.update(snapshot(false));
+  });
+
+  it("should notify subscribers when character creation opens and closes", async () => {
+    const alerts = new CharacterCreationAlerts(watcher);
+    const received: CharacterCreationAlert[] = [];
+    alerts.subscribe(
+      "Balmung",
+      new CallbackNotifier((a) => {
+        received.push(a);
+      }),
+    );
+
+    watcher.update(snapshot(true));
+    watcher.update(snapshot(false));
+    await flush();
+
+    expect(received).toEqual([
+      expect.objectContaining({
+        world: "Balmung",
+        dataCenter: "Crystal",
+        region: "na",
+        available: true,
+        current: expect.objectContaining({ population: "preferred" }),
+        at: expect.any(Number),
+      }),
+      expect.objectContaining({ world: "Balmung", available: false }),
+    ]);
+  });
+
+  it("should only notify about subscribed worlds", async () => {
+    const alerts = new CharacterCreationAlerts(watcher);
+    const notify = vi.fn();
+    alerts.subscribe(["zalera"], { notify });
+
+    watcher.update(snapshot(true));
+    watcher.update(snapshot(true, false));
+    await flush();
+
+    expect(notify).toHaveBeenCalledTimes(1);
+    expect(notify).toHaveBeenCalledWith(
+      expect.objectContaining({ world: "Zalera", available: false }),
+    );
+  });
+
+  it("should stop notifying after unsubscribing or closing", async () => {
+    const alerts = new CharacterCreationAlerts(watcher);
+    const first = vi.fn();
+    const second = vi.fn();
+    const unsubscribe = alerts.subscribe("Balmung", { notify: first });
+    alerts.subscribe("Zalera", { notify: second });
+
+    unsubscribe();
+    alerts.close();
+    watcher.update(snapshot(true, false));
+    await flush();
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).not.toHaveBeenCalled();
+  });
+
+  it("should keep notifying others when a notifier fails", async () => {
+    const alerts = new CharacterCreationAlerts(watcher);
+    const notify = vi.fn();
+    alerts.subscribe("Balmung", {
+      notify: () => {
+        throw new Error("boom");
+      },
+    });
+    alerts.subscribe("Balmung", { notify });
+
+    watcher.update(snapshot(true));
+    await flush();
+
+    expect(notify).toHaveBeenCalledTimes(1);
+  });
+
+  it("should reject invalid debounce values", () => {
+    expect(
+      () => new CharacterCreationAlerts(watcher, { debounceMs: -1 }),
+    ).toThrow("Alert debounce must be a non-negative integer, got: -1");
+  });
+
+  describe("debouncing", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should deliver a change once it has lasted the debounce", async () => {
+      const alerts = new CharacterCreationAlerts(watcher, {
+        debounceMs: 60_000,
+      });
+      const notify = vi.fn();
+      alerts.subscribe("Balmung", { notify });
+
+      watcher.update(snapshot(true));
+      await vi.advanceTimersByTimeAsync(59_999);
+      expect(notify).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(notify).toHaveBeenCalledWith(
+        expect.objectContaining({ available: true }),
+      );
+    });
+
+    it("should not notify when a world flaps back within the debounce", async () => {
+      const alerts = new CharacterCreationAlerts(watcher, {
+        debounceMs: 60_000,
+      });
+      const notify = vi.fn();
+      alerts.subscribe("Balmung", { notify });
+
+      watcher.update(snapshot(true));
+      await vi.advanceTimersByTimeAsync(30_000);
+      watcher.update(snapshot(false));
+      watcher.update(snapshot(true));
+      watcher.update(snapshot(false));
+      await vi.advanceTimersByTimeAsync(120_000);
+
+      expect(notify).not.toHaveBeenCalled();
+    });
+
+    it("should deliver only the latest of several quick changes", async () => {
+      const alerts = new CharacterCreationAlerts(watcher, {
+        debounceMs: 60_000,
+      });
+      const notify = vi.fn();
+      alerts.subscribe("Balmung", { notify });
+
+      watcher.update(snapshot(true));
+      await vi.advanceTimersByTimeAsync(30_000);
+      watcher.update(snapshot(false));
+      watcher.update(snapshot(true));
+      await vi.advanceTimersByTimeAsync(60_000);
+
+      expect(notify).toHaveBeenCalledTimes(1);
+      expect(notify).toHaveBeenCalledWith(
+        expect.objectContaining({ available: true }),
+      );
+    });
+
+    it("should cancel pending alerts when closed", async () => {
+      const alerts = new CharacterCreationAlerts(watcher, {
+        debounceMs: 60_000,
+      });
+      const notify = vi.fn();
+      alerts.subscribe("Balmung", { notify });
+
+      watcher.update(snapshot(true));
+      alerts.close();
+      await vi.advanceTimersByTimeAsync(60_000);
+
+      expect(notify).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe("WebhookNotifier", () => {
+  const alert: CharacterCreationAlert = {
+    world: createWorldName("Balmung"),
+    dataCenter: createDataCenterName("Crystal"),
+    region: "na",
+    available: true,
+    current: createTestWorld("Balmung", "online", "preferred"),
+    at: 1000,
+  };
+
+  it("should POST alerts as JSON with custom headers", async () => {
+    const transport = createTestTransport(() => createTestResponse("", 204));
+    const notifier = new WebhookNotifier("https://example.com/hook", {
+      transport,
+      headers: { Authorization: "Bearer token" },
+    });
+
+    await notifier.notify(alert);
+
+    expect(transport.calls).toEqual([
+      {
+        url: "https://example.com/hook",
+        options: {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: "Bearer token",
+          },
+          body: JSON.stringify(alert),
+          signal: expect.any(AbortSignal),
+        },
+      },
+    ]);
+  });
+
+  it("should surface rejected and failed requests as typed errors", async () => {
+    const rejecting = new WebhookNotifier("https://example.com/hook", {
+      transport: createTestTransport(() => createTestResponse("", 500)),
+    });
+    const failing = new WebhookNotifier("https://example.com/hook", {
+      transport: createTestTransport(() => {
+        throw new Error("ECONNREFUSED");
+      }),
+    });
+
+    await expect(rejecting.notify(alert)).rejects.toBeInstanceOf(HttpError);
+    await expect(failing.notify(alert)).rejects.toBeInstanceOf(NetworkError);
+  });
+
+  it("should reject invalid timeouts", () => {
+    expect(
+      () => new WebhookNotifier("https://example.com/hook", { timeoutMs: 0 }),
+    ).toThrow("Webhook timeout must be a positive integer, got: 0");
+  });
+});
@@ -0,0 +1,262 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { LodestoneWorldStatus } from "../src/index.js";
+import { EXIT_CODES, runCli } from "../src/cli/index.js";
+import type { DataCenter } from "../src/index.js";
+import { createTestDataCenter } from "./test-helpers.js";
+
+function createIo(client: LodestoneWorldStatus, signal?: AbortSignal) {
+  const output = { stdout: "", stderr: "" };
+  return {
+    output,
+    io: {
+      client,
+      signal,
+      stdout: { write: (text: string) => (output.stdout += text) },
+      stderr: { write: (text: string) => (output.stderr += text) },
+    },
+  };
+}
+
+function snapshot(status: "online" | "maintenance" = "online"): DataCenter[] {
+  return [
+    createTestDataCenter("Aether", "na", [
+      {
+        name: "Adamantoise",
+        status,
+        population: "standard",
+        newCharacterCreation: true,
+      },
+      {
+        name: "Cactuar",
+        status: "unknown",
+        population: "congested",
+        newCharacterCreation: false,
+      },
+    ]),
+    createTestDataCenter("Chaos", "eu", [
+      {
+        name: "Cerberus",
+        status: "online",
+        population: "preferred",
+        newCharacterCreation: true,
+      },
+    ]),
+  ];
+}
+
+describe("runCli", () => {
+  let client: LodestoneWorldStatus;
+
+  beforeEach(() => {
+    client = new LodestoneWorldStatus();
+    vi.spyOn(client, "fetchWorldStatus").mockResolvedValue(snapshot());
+  });
+
+  describe("world", () => {
+    it("should print a table and exit 0 for an online world", async () => {
+      const { io, output } = createIo(client);
+
+      const code = await runCli(["world", "adamantoise"], io);
+
+      expect(code).toBe(EXIT_CODES.ok);
+      expect(output.stdout).toContain("World");
+      expect(output.stdout).toMatch(
+        /Adamantoise\s+Aether\s+NA\s+online\s+standard\s+available/,
+      );
+    });
+
+    it("should exit 2 for a world in maintenance", async () => {
+      vi.mocked(client.fetchWorldStatus).mockResolvedValue(
+        snapshot("maintenance"),
+      );
+      const { io } = createIo(client);
+
+      expect(await runCli(["world", "Adamantoise"], io)).toBe(
+        EXIT_CODES.maintenance,
+      );
+    });
+
+    it("should exit 3 when the world status is unknown", async () => {
+      const { io } = createIo(client);
+
+      expect(await runCli(["world", "Cactuar"], io)).toBe(
+        EXIT_CODES.unknownStatus,
+      );
+    });
+
+    it("should exit 4 when the world does not exist", async () => {
+      const { io, output } = createIo(client);
+
+      expect(await runCli(["world", "Nowhere"], io)).toBe(EXIT_CODES.notFound);
+      expect(output.stderr).toBe("World not found: Nowhere\n");
+    });
+
+    it("should suggest close world names when the world does not exist", async () => {
+      const { io, output } = createIo(client);
+
+      expect(await runCli(["world", "Cerbrs"], io)).toBe(EXIT_CODES.notFound);
+      expect(output.stderr).toBe(
+        "World not found: Cerbrs\nDid you mean: Cerberus?\n",
+      );
+    });
+
+    it("should let the stop signal cancel the suggestion lookup", async () => {
+      const controller = new AbortController();
+      const suggestWorlds = vi.spyOn(client, "suggestWorlds");
+      const suggestDataCenters = vi.spyOn(client, "suggestDataCenters");
+      const { io } = createIo(client, controller.signal);
+
+      await runCli(["world", "Nowhere"], io);
+      await runCli(["dc", "Nowhere"], io);
+
+      expect(suggestWorlds).toHaveBeenCalledWith("Nowhere", {
+        limit: 3,
+        signal: controller.signal,
+      });
+      expect(suggestDataCenters).toHaveBeenCalledWith("Nowhere", {
+        limit: 3,
+        signal: controller.signal,
+      });
+    });
+
+    it("should resolve world aliases before looking the world up", async () => {
+      vi.mocked(client.fetchWorldStatus).mockResolvedValue([
+        createTestDataCenter("Aether", "na", [
+          {
+            name: "Midgardsormr",
+            status: "online",
+            population: "standard",
+            newCharacterCreation: true,
+          },
+        ]),
+      ]);
+      const { io, output } = createIo(client);
+
+      expect(await runCli(["world", "Midgard"], io)).toBe(EXIT_CODES.ok);
+      expect(output.stdout).toContain("Midgardsormr");
+    });
+
+    it("should print the world with its data center and region as JSON", async () => {
+      const { io, output } = createIo(client);
+
+      await runCli(["world", "Cerberus", "--json"], io);
+
+      expect(JSON.parse(output.stdout)).toEqual({
+        name: "Cerberus",
+        status: "online",
+        population: "preferred",
+        category: "preferred",
+        newCharacterCreation: true,
+        dataCenter: "Chaos",
+        region: "eu",
+      });
+    });
+  });
+
+  describe("dc, region and all", () => {
+    it("should print every world in a data center", async () => {
+      const { io, output } = createIo(client);
+
+      expect(await runCli(["dc", "aether"], io)).toBe(EXIT_CODES.ok);
+      expect(output.stdout).toContain("Adamantoise");
+      expect(output.stdout).toContain("Cactuar");
+      expect(output.stdout).not.toContain("Cerberus");
+    });
+
+    it("should exit 4 for an unknown data center", async () => {
+      const { io, output } = createIo(client);
+
+      expect(await runCli(["dc", "Nowhere"], io)).toBe(EXIT_CODES.notFound);
+      expect(output.stderr).toBe("Data center not found: Nowhere\n");
+    });
+
+    it("should print the data centers in a region as JSON", async () => {
+      const { io, output } = createIo(client);
+
+      await runCli(["region", "eu", "--json"], io);
+
+      expect(JSON.parse(output.stdout)).toEqual([snapshot()[1]]);
+    });
+
+    it("should print every world", async () => {
+      const { io, output } = createIo(client);
+
+      expect(await runCli(["all"], io)).toBe(EXIT_CODES.ok);
+      expect(output.stdout.trimEnd().split("\n")).toHaveLength(5);
+    });
+  });
+
+  describe("usage", () => {
+    it("should print help to stdout with --help", async () => {
+      const { io, output } = createIo(client);
+
+      expect(await runCli(["--help"], io)).toBe(EXIT_CODES.ok);
+      expect(output.stdout).toContain("Usage: lodestone-status");
+    });
+
+    it.each([
+      [[]],
+      [["world"]],
+      [["region", "moon"]],
+      [["unknown-command"]],
+      [["all", "--bogus"]],
+      [["all", "--timeout", "soon"]],
+    ])("should exit 64 for %j", async (args) => {
+      const { io, output } = createIo(client);
+
+      expect(await runCli(args, io)).toBe(EXIT_CODES.usage);
+      expect(output.stderr).not.toBe("");
+      expect(client.fetchWorldStatus).not.toHaveBeenCalled();
+    });
+  });
+
+  it("should exit 1 and report the error when the request fails", async () => {
+    vi.mocked(client.fetchWorldStatus).mockRejectedValue(
+      new Error("Failed to fetch world status: HTTP error! status: 503"),
+    );
+    const { io, output } = createIo(client);
+
+    expect(await runCli(["all"], io)).toBe(EXIT_CODES.error);
+    expect(output.stderr).toBe(
+      "Failed to fetch world status: HTTP error! status: 503\n",
+    );
+  });
+
+  describe("watch", () => {
+    it("should print changes as JSON lines until stopped", async () => {
+      vi.useFakeTimers();
+      try {
+        vi.mocked(client.fetchWorldStatus)
+          .mockResolvedValueOnce(snapshot())
+          .mockResolvedValueOnce(snapshot("maintenance"));
+        const controller = new AbortController();
+        const { io, output } = createIo(client, controller.signal);
+
+        const result = runCli(["watch", "--json", "--interval", "1000"], io);
+        await vi.advanceTimersByTimeAsync(1000);
+        controller.abort();
+
+        expect(await result).toBe(EXIT_CODES.ok);
+        const lines = output.stdout.trimEnd().split("\n");
+        expect(lines.map((line) => JSON.parse(line))).toEqual([
+          expect.objectContaining({
+            type: "status",
+            world: "Adamantoise",
+            before: "online",
+            after: "maintenance",
+          }),
+        ]);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("should return immediately when already stopped", async () => {
+      const controller = new AbortController();
+      controller.abort();
+      const { io } = createIo(client, controller.signal);
+
+      expect(await runCli(["watch"], io)).toBe(EXIT_CODES.ok);
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect, vi } from "vitest";
+import { LodestoneWorldStatus, RequestAbortedError } from "../src/index.js";
+import type { HttpResponse } from "../src/index.js";
+import {
+  createTestResponse,
+  createTestTransport,
+  createWorldStatusHtml,
+} from "./test-helpers.js";
+
+const worldStatusHtml = createWorldStatusHtml({
+  Aether: ["Adamantoise Standard", "Cactuar Congested"],
+});
+
+/**
+ * Transport whose responses are released by the test
+ */
+function createGatedTransport() {
+  const gates: Array<(response: HttpResponse) => void> = [];
+  const transport = createTestTransport(
+    () => new Promise<HttpResponse>((resolve) => gates.push(resolve)),
+  );
+  return {
+    transport,
+    release: (response: HttpResponse) => gates.shift()?.(response),
+  };
+}
+
+describe("LodestoneWorldStatus - Request Coalescing", () => {
+  it("should share one fetch between concurrent cache misses", async () => {
+    const { transport, release } = createGatedTransport();
+    const client = new LodestoneWorldStatus({ transport });
+
+    const lookups = Promise.all(
+      Array.from({ length: 10 }, () => client.checkWorldStatus("Cactuar")),
+    );
+    await Promise.resolve();
+    release(createTestResponse(worldStatusHtml));
+
+    const results = await lookups;
+    expect(results.every((world) => world?.name === "Cactuar")).toBe(true);
+    expect(transport.calls).toHaveLength(1);
+  });
+
+  it("should share the parse result between different methods", async () => {
+    const { transport, release } = createGatedTransport();
+    const client = new LodestoneWorldStatus({ transport });
+
+    const pending = Promise.all([
+      client.getAllWorlds(),
+      client.getAllWorlds(),
+      client.getDataCenter("Aether"),
+    ]);
+    await Promise.resolve();
+    release(createTestResponse(worldStatusHtml));
+
+    const [first, second, aether] = await pending;
+    expect(first).toBe(second);
+    expect(aether).toBe(first[0]);
+  });
+
+  it("should propagate a failure to every caller without caching it", async () => {
+    const { transport, release } = createGatedTransport();
+    const client = new LodestoneWorldStatus({ transport });
+
+    const pending = Promise.allSettled([
+      client.getAllWorlds(),
+      client.checkWorldStatus("Adamantoise"),
+      client.getWorldsByRegion("na"),
+    ]);
+    await Promise.resolve();
+    release(createTestResponse("", 503));
+
+    const results = await pending;
+    expect(results.every((result) => result.status === "rejected")).toBe(true);
+    expect(client.getCacheStats().hasData).toBe(false);
+
+    // The next call starts a new fetch rather than reusing the failure
+    const retry = client.getAllWorlds();
+    await Promise.resolve();
+    release(createTestResponse(worldStatusHtml));
+    await expect(retry).resolves.toHaveLength(1);
+    expect(transport.calls).toHaveLength(2);
+  });
+
+  it("should not fail other callers when one caller aborts", async () => {
+    const { transport, release } = createGatedTransport();
+    const client = new LodestoneWorldStatus({ transport });
+    const controller = new AbortController();
+
+    const aborted = client.getAllWorlds({ signal: controller.signal });
+    const patient = client.getAllWorlds();
+    controller.abort();
+
+    await expect(aborted).rejects.toBeInstanceOf(RequestAbortedError);
+
+    release(createTestResponse(worldStatusHtml));
+    await expect(patient).resolves.toHaveLength(1);
+    expect(transport.calls).toHaveLength(1);
+  });
+
+  it("should cancel the shared fetch when every caller aborts", async () => {
+    const { transport } = createGatedTransport();
+    const client = new LodestoneWorldStatus({ transport });
+    const controller = new AbortController();
+
+    const first = client.getAllWorlds({ signal: controller.signal });
+    const second = client.getAllWorlds({ signal: controller.signal });
+    await Promise.resolve();
+    controller.abort();
+
+    await expect(first).rejects.toBeInstanceOf(RequestAbortedError);
+    await expect(second).rejects.toBeInstanceOf(RequestAbortedError);
+    expect(transport.calls[0].options?.signal?.aborted).toBe(true);
+  });
+
+  it("should start a new fetch for a caller arriving after every earlier caller aborted", async () => {
+    const { transport, release } = createGatedTransport();
+    const client = new LodestoneWorldStatus({ transport });
+    const controller = new AbortController();
+
+    const aborted = client.getAllWorlds({ signal: controller.signal });
+    await vi.waitFor(() => expect(transport.calls).toHaveLength(1));
+    controller.abort();
+    const late = client.getAllWorlds();
+
+    await expect(aborted).rejects.toBeInstanceOf(RequestAbortedError);
+    await vi.waitFor(() => expect(transport.calls).toHaveLength(2));
+    release(createTestResponse(worldStatusHtml));
+    release(createTestResponse(worldStatusHtml));
+
+    await expect(late).resolves.toHaveLength(1);
+  });
+});
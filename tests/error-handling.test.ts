@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { LodestoneWorldStatus } from "../src/index.js";
+import { LodestoneWorldStatus, ParseError } from "../src/index.js";
 
 // Mock the scraper functions
 vi.mock("../src/utils/scraper.js", () => ({
@@ -70,6 +70,22 @@ describe("Error Handling Tests", () => {
       );
     });
 
+    it("should wrap parser failures in ParseError", async () => {
+      const cause = new Error("Parsing failed");
+      vi.mocked(parseWorldStatus).mockImplementation(() => {
+        throw cause;
+      });
+
+      const error = await client.getAllWorlds().catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ParseError);
+      expect(error).toMatchObject({
+        cause,
+        retryable: false,
+        url: "https://na.finalfantasyxiv.com/lodestone/worldstatus/",
+      });
+    });
+
     it("should handle empty or malformed HTML", async () => {
       vi.mocked(parseWorldStatus).mockImplementation(() => {
         throw new Error("Cannot parse empty HTML");
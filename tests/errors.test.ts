@@ -0,0 +1,139 @@
+import { describe, it, expect } from "vitest";
+import {
+  HttpError,
+  LodestoneError,
+  LodestoneWorldStatus,
+  NetworkError,
+  ParseError,
+  RequestAbortedError,
+  RequestTimeoutError,
+  SchemaDriftError,
+  ValidationError,
+  createDataCenterName,
+  createWorldName,
+} from "../src/index.js";
+import {
+  createTestResponse,
+  createTestTransport,
+  createWorldStatusHtml,
+} from "./test-helpers.js";
+
+const WORLD_STATUS_URL =
+  "https://na.finalfantasyxiv.com/lodestone/worldstatus/";
+
+describe("Error hierarchy", () => {
+  it("should flag transient failures as retryable", () => {
+    expect(new NetworkError("url", new Error("reset")).retryable).toBe(true);
+    expect(new RequestTimeoutError("url", 100).retryable).toBe(true);
+    expect(new HttpError("url", 503).retryable).toBe(true);
+    expect(new HttpError("url", 429).retryable).toBe(true);
+    expect(new HttpError("url", 408).retryable).toBe(true);
+    expect(new HttpError("url", 404).retryable).toBe(false);
+    expect(new RequestAbortedError("url").retryable).toBe(false);
+    expect(new ParseError("bad markup").retryable).toBe(false);
+    expect(new ValidationError("world name", "").retryable).toBe(false);
+  });
+
+  it("should name errors after their class", () => {
+    const error = new ParseError("bad markup", { url: "url" });
+
+    expect(error).toBeInstanceOf(LodestoneError);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe("ParseError");
+    expect(error.url).toBe("url");
+  });
+
+  it("should throw ValidationError for invalid names", () => {
+    expect(() => createWorldName("<script>")).toThrow(ValidationError);
+    expect(() => createWorldName("<script>")).toThrow(
+      "Invalid world name: <script>",
+    );
+
+    try {
+      createDataCenterName("   ");
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error).toMatchObject({
+        field: "data center name",
+        value: "   ",
+      });
+    }
+  });
+});
+
+describe("LodestoneWorldStatus - typed errors", () => {
+  it("should surface HTTP errors with their status and URL", async () => {
+    const client = new LodestoneWorldStatus({
+      transport: createTestTransport(() => createTestResponse("", 503)),
+    });
+
+    const error = await client.getAllWorlds().catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error).toMatchObject({
+      status: 503,
+      url: WORLD_STATUS_URL,
+      retryable: true,
+    });
+  });
+
+  it("should surface transport failures as NetworkError with the cause", async () => {
+    const cause = new Error("ECONNRESET");
+    const client = new LodestoneWorldStatus({
+      transport: createTestTransport(() => {
+        throw cause;
+      }),
+    });
+
+    const error = await client.getAllWorlds().catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(NetworkError);
+    expect((error as NetworkError).cause).toBe(cause);
+    expect((error as NetworkError).message).toBe(
+      `Request to ${WORLD_STATUS_URL} failed: ECONNRESET`,
+    );
+  });
+
+  it("should surface body read failures as NetworkError", async () => {
+    const client = new LodestoneWorldStatus({
+      transport: createTestTransport(() => ({
+        ok: true,
+        status: 200,
+        text: () => Promise.reject(new Error("socket hang up")),
+      })),
+    });
+
+    await expect(client.getAllWorlds()).rejects.toBeInstanceOf(NetworkError);
+  });
+
+  it("should throw SchemaDriftError from fetches when strict parsing is on", async () => {
+    const transport = createTestTransport(() =>
+      createTestResponse("<html><h2>Maintenance</h2></html>"),
+    );
+    const lenient = new LodestoneWorldStatus({ transport });
+    const strict = new LodestoneWorldStatus({ transport, strictParsing: true });
+
+    await expect(lenient.getAllWorlds()).resolves.toEqual([]);
+    const error = await strict.getAllWorlds().catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(SchemaDriftError);
+    expect((error as SchemaDriftError).url).toBe(WORLD_STATUS_URL);
+    expect(strict.getCacheStats().hasData).toBe(false);
+  });
+
+  it("should wrap other library errors from the parser in ParseError", async () => {
+    const client = new LodestoneWorldStatus({
+      transport: createTestTransport(() =>
+        createTestResponse(
+          createWorldStatusHtml({ Ætherß: ["Adamantoise Standard"] }),
+        ),
+      ),
+    });
+
+    const error = await client.getAllWorlds().catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ParseError);
+    expect((error as ParseError).url).toBe(WORLD_STATUS_URL);
+    expect((error as ParseError).cause).toBeInstanceOf(ValidationError);
+  });
+});
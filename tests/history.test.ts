@@ -0,0 +1,439 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { appendFile, mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  FileStatusHistoryStore,
+  LodestoneWorldStatus,
+  MemoryStatusHistoryStore,
+  StatusHistoryRecorder,
+  computeStatusStats,
+} from "../src/index.js";
+import type {
+  DataCenter,
+  StatusHistoryStore,
+  StatusTransition,
+} from "../src/index.js";
+import {
+  createTestDataCenter,
+  createTestResponse,
+  createTestTransport,
+  createTestWorld,
+  createWorldStatusHtml,
+} from "./test-helpers.js";
+
+const snapshot = (
+  balmung: "standard" | "congested",
+  twintania: "online" | "maintenance" = "online",
+): DataCenter[] => [
+  createTestDataCenter("Crystal", "na", [
+    createTestWorld("Balmung", "online", balmung, balmung !== "congested"),
+    createTestWorld("Zalera"),
+  ]),
+  createTestDataCenter("Light", "eu", [
+    createTestWorld("Twintania", twintania),
+  ]),
+];
+
+describe("StatusHistoryRecorder", () => {
+  let store: MemoryStatusHistoryStore;
+  let recorder: StatusHistoryRecorder;
+
+  beforeEach(() => {
+    store = new MemoryStatusHistoryStore();
+    recorder = new StatusHistoryRecorder(store);
+  });
+
+  it("should record every world from the first snapshot", async () => {
+    const recorded = await recorder.record(snapshot("standard"), 1000);
+
+    expect(recorded).toHaveLength(3);
+    expect(recorded[0]).toEqual({
+      world: "Balmung",
+      dataCenter: "Crystal",
+      region: "na",
+      status: "online",
+      population: "standard",
+      category: "standard",
+      newCharacterCreation: true,
+      at: 1000,
+    });
+  });
+
+  it("should only record worlds whose state changed", async () => {
+    await recorder.record(snapshot("standard"), 1000);
+    expect(await recorder.record(snapshot("standard"), 2000)).toEqual([]);
+
+    const recorded = await recorder.record(
+      snapshot("congested", "maintenance"),
+      3000,
+    );
+
+    expect(recorded.map(({ world, at }) => ({ world, at }))).toEqual([
+      { world: "Balmung", at: 3000 },
+      { world: "Twintania", at: 3000 },
+    ]);
+    expect(await recorder.query()).toHaveLength(5);
+  });
+
+  it("should record snapshots in the order they were given", async () => {
+    await Promise.all([
+      recorder.record(snapshot("standard"), 1000),
+      recorder.record(snapshot("standard"), 2000),
+      recorder.record(snapshot("congested"), 3000),
+    ]);
+
+    expect(
+      (await recorder.query({ world: "Balmung" })).map(({ at }) => at),
+    ).toEqual([1000, 3000]);
+  });
+
+  it("should continue from the history already in the store", async () => {
+    await recorder.record(snapshot("standard"), 1000);
+
+    const restarted = new StatusHistoryRecorder(store);
+    expect(await restarted.record(snapshot("standard"), 2000)).toEqual([]);
+    expect(await restarted.record(snapshot("congested"), 3000)).toHaveLength(1);
+  });
+
+  it("should record worlds missing from a snapshot as absent until they return", async () => {
+    await recorder.record(snapshot("standard"), 1000);
+    // The Light data center drops off the page
+    const [crystal] = snapshot("standard");
+
+    const missing = await recorder.record([crystal], 2000);
+    expect(missing).toEqual([
+      expect.objectContaining({
+        world: "Twintania",
+        dataCenter: "Light",
+        status: "online",
+        at: 2000,
+        absent: true,
+      }),
+    ]);
+    expect(await recorder.record([crystal], 3000)).toEqual([]);
+
+    const returned = await recorder.record(snapshot("standard"), 4000);
+    expect(returned).toHaveLength(1);
+    expect(returned[0]).toMatchObject({ world: "Twintania", at: 4000 });
+    expect(returned[0]).not.toHaveProperty("absent");
+  });
+
+  it("should not record an empty snapshot as every world going missing", async () => {
+    await recorder.record(snapshot("standard"), 1000);
+
+    expect(await recorder.record([], 2000)).toEqual([]);
+  });
+
+  it("should keep recording after the store fails", async () => {
+    const failing: StatusHistoryStore = {
+      append: () => Promise.reject(new Error("disk full")),
+      query: () => Promise.resolve([]),
+    };
+    const failingRecorder = new StatusHistoryRecorder(failing);
+
+    await expect(
+      failingRecorder.record(snapshot("standard"), 1000),
+    ).rejects.toThrow("disk full");
+    await expect(
+      failingRecorder.record(snapshot("standard"), 2000),
+    ).rejects.toThrow("disk full");
+  });
+});
+
+describe("MemoryStatusHistoryStore", () => {
+  it("should filter by world, data center, region and time range", async () => {
+    const store = new MemoryStatusHistoryStore();
+    const recorder = new StatusHistoryRecorder(store);
+    await recorder.record(snapshot("standard"), 1000);
+    await recorder.record(snapshot("congested", "maintenance"), 2000);
+    await recorder.record(snapshot("standard", "online"), 3000);
+
+    expect(await store.query({ world: "balmung" })).toHaveLength(3);
+    expect(await store.query({ dataCenter: "Crystal" })).toHaveLength(4);
+    expect(await store.query({ region: "eu" })).toHaveLength(3);
+    expect(
+      (await store.query({ from: 2000, to: 3000 })).map(({ world }) => world),
+    ).toEqual(["Balmung", "Twintania"]);
+    expect(await store.query({ world: "Zalera", from: 1001 })).toEqual([]);
+  });
+});
+
+describe("FileStatusHistoryStore", () => {
+  let directory: string;
+  let path: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "lodestone-world-status-"));
+    path = join(directory, "history", "status.jsonl");
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("should return no history before the file exists", async () => {
+    expect(await new FileStatusHistoryStore(path).query()).toEqual([]);
+  });
+
+  it("should append one JSON line per transition and read them back", async () => {
+    const store = new FileStatusHistoryStore(path);
+    const recorder = new StatusHistoryRecorder(store);
+    const first = await recorder.record(snapshot("standard"), 1000);
+    const second = await recorder.record(snapshot("congested"), 2000);
+
+    const lines = (await readFile(path, "utf8")).trimEnd().split("\n");
+    expect(lines).toHaveLength(4);
+    expect(JSON.parse(lines[3])).toMatchObject({
+      world: "Balmung",
+      population: "congested",
+      at: 2000,
+    });
+    expect(await store.query()).toEqual([...first, ...second]);
+    expect(await store.query({ world: "Balmung", from: 1500 })).toEqual(second);
+  });
+
+  it("should read absent transitions back", async () => {
+    const store = new FileStatusHistoryStore(path);
+    const recorder = new StatusHistoryRecorder(store);
+    await recorder.record(snapshot("standard"), 1000);
+    const [absent] = await recorder.record(
+      snapshot("standard").slice(0, 1),
+      2000,
+    );
+
+    expect(absent.absent).toBe(true);
+    expect(await store.query({ world: "Twintania" })).toContainEqual(absent);
+    expect(
+      await new StatusHistoryRecorder(store).record(
+        snapshot("standard").slice(0, 1),
+        3000,
+      ),
+    ).toEqual([]);
+  });
+
+  it("should skip lines it can't read", async () => {
+    const store = new FileStatusHistoryStore(path);
+    await new StatusHistoryRecorder(store).record(snapshot("standard"), 1000);
+    await appendFile(path, '{"world":"Balmung"}\nnot json\n\n', "utf8");
+
+    expect(await store.query()).toHaveLength(3);
+  });
+});
+
+describe("LodestoneWorldStatus - status history", () => {
+  it("should record each freshly fetched snapshot", async () => {
+    let population = "Standard";
+    const history = new MemoryStatusHistoryStore();
+    const client = new LodestoneWorldStatus({
+      history,
+      transport: createTestTransport(() =>
+        createTestResponse(
+          createWorldStatusHtml({ Crystal: [`Balmung ${population}`] }),
+        ),
+      ),
+    });
+
+    await client.getAllWorlds();
+    // Served from the cache, so nothing new is recorded
+    await client.getAllWorlds();
+    population = "Congested";
+    client.clearCache();
+    await client.getAllWorlds();
+
+    const transitions = await client.getStatusHistory({ world: "Balmung" });
+    expect(transitions.map(({ population }) => population)).toEqual([
+      "standard",
+      "congested",
+    ]);
+  });
+
+  it("should not fail fetches when recording fails", async () => {
+    const client = new LodestoneWorldStatus({
+      history: {
+        append: () => Promise.reject(new Error("disk full")),
+        query: () => Promise.resolve([]),
+      },
+      transport: createTestTransport(() =>
+        createTestResponse(
+          createWorldStatusHtml({ Crystal: ["Balmung Standard"] }),
+        ),
+      ),
+    });
+
+    await expect(client.getAllWorlds()).resolves.toHaveLength(1);
+  });
+
+  it("should refuse to read history without a store", async () => {
+    await expect(new LodestoneWorldStatus().getStatusHistory()).rejects.toThrow(
+      "Status history is not enabled",
+    );
+  });
+});
+
+const HOUR = 60 * 60 * 1000;
+
+const transition = (
+  world: string,
+  at: number,
+  status: StatusTransition["status"] = "online",
+  population: StatusTransition["population"] = "standard",
+  dataCenter: string = "Crystal",
+  region: StatusTransition["region"] = "na",
+): StatusTransition =>
+  ({
+    world,
+    dataCenter,
+    region,
+    status,
+    population,
+    category: population,
+    newCharacterCreation: population !== "congested",
+    at,
+  }) as StatusTransition;
+
+describe("computeStatusStats", () => {
+  const transitions = [
+    transition("Balmung", 0, "online", "congested"),
+    transition("Balmung", 10 * HOUR, "maintenance", "congested"),
+    // Population changing mid-maintenance doesn't start a new window
+    transition("Balmung", 11 * HOUR, "maintenance", "standard"),
+    transition("Balmung", 12 * HOUR, "online", "congested"),
+    transition("Balmung", 20 * HOUR, "partial-maintenance", "congested"),
+    transition("Balmung", 21 * HOUR, "online", "congested"),
+    transition("Zalera", 0, "online", "preferred"),
+    transition("Twintania", 12 * HOUR, "online", "standard", "Light", "eu"),
+  ];
+
+  it("should compute uptime, maintenance and population per world", () => {
+    const report = computeStatusStats(transitions, { to: 24 * HOUR });
+    const balmung = report.worlds.find(({ world }) => world === "Balmung");
+
+    expect(report).toMatchObject({ from: 0, to: 24 * HOUR });
+    expect(balmung).toEqual({
+      world: "Balmung",
+      dataCenter: "Crystal",
+      region: "na",
+      trackedMs: 24 * HOUR,
+      onlineMs: 21 * HOUR,
+      onlinePercent: 87.5,
+      maintenanceCount: 2,
+      maintenanceMs: 3 * HOUR,
+      longestMaintenanceMs: 2 * HOUR,
+      meanMaintenanceMs: 1.5 * HOUR,
+      populationPercent: {
+        standard: expect.closeTo((1 / 24) * 100),
+        preferred: 0,
+        congested: expect.closeTo((23 / 24) * 100),
+        "preferred+": 0,
+        unknown: 0,
+      },
+    });
+  });
+
+  it("should only count time after a world is first seen", () => {
+    const report = computeStatusStats(transitions, { to: 24 * HOUR });
+
+    expect(
+      report.worlds.find(({ world }) => world === "Twintania"),
+    ).toMatchObject({ trackedMs: 12 * HOUR, onlinePercent: 100 });
+  });
+
+  it("should stop counting a world's time while it is absent", () => {
+    const report = computeStatusStats(
+      [
+        transition("Twintania", 0, "online", "congested"),
+        { ...transition("Twintania", 6 * HOUR), absent: true },
+        transition("Twintania", 18 * HOUR, "maintenance", "congested"),
+        { ...transition("Twintania", 20 * HOUR), absent: true },
+      ],
+      { to: 24 * HOUR },
+    );
+
+    expect(report.worlds[0]).toMatchObject({
+      trackedMs: 8 * HOUR,
+      onlineMs: 6 * HOUR,
+      maintenanceCount: 1,
+      maintenanceMs: 2 * HOUR,
+      populationPercent: { congested: 100 },
+    });
+  });
+
+  it("should roll up per data center and region", () => {
+    const report = computeStatusStats(transitions, { to: 24 * HOUR });
+
+    expect(report.dataCenters).toEqual([
+      expect.objectContaining({
+        dataCenter: "Crystal",
+        region: "na",
+        trackedMs: 48 * HOUR,
+        onlinePercent: expect.closeTo((45 / 48) * 100),
+        maintenanceCount: 2,
+        longestMaintenanceMs: 2 * HOUR,
+      }),
+      expect.objectContaining({ dataCenter: "Light", region: "eu" }),
+    ]);
+    expect(report.regions.map(({ region }) => region)).toEqual(["na", "eu"]);
+    expect(report.regions[0].populationPercent.preferred).toBe(50);
+  });
+
+  it("should clip states and maintenance windows to the period", () => {
+    const report = computeStatusStats(transitions, {
+      from: 11 * HOUR,
+      to: 20.5 * HOUR,
+    });
+
+    expect(
+      report.worlds.find(({ world }) => world === "Balmung"),
+    ).toMatchObject({
+      trackedMs: 9.5 * HOUR,
+      onlineMs: 8 * HOUR,
+      maintenanceCount: 2,
+      maintenanceMs: 1.5 * HOUR,
+      longestMaintenanceMs: HOUR,
+    });
+  });
+
+  it("should report zeros for worlds without tracked time", () => {
+    const report = computeStatusStats([transition("Balmung", 5 * HOUR)], {
+      from: 0,
+      to: 5 * HOUR,
+    });
+
+    expect(report.worlds[0]).toMatchObject({
+      trackedMs: 0,
+      onlinePercent: 0,
+      meanMaintenanceMs: 0,
+    });
+  });
+
+  it("should reject periods that end before they start", () => {
+    expect(() => computeStatusStats([], { from: 2, to: 1 })).toThrow(
+      "Statistics period must not end before it starts, got: 2 to 1",
+    );
+  });
+});
+
+describe("LodestoneWorldStatus - status statistics", () => {
+  it("should compute statistics from the recorded history", async () => {
+    const history = new MemoryStatusHistoryStore();
+    await history.append([
+      transition("Balmung", 0, "online", "congested"),
+      transition("Balmung", 6 * HOUR, "online", "standard"),
+      transition("Zalera", 0),
+    ]);
+    const client = new LodestoneWorldStatus({ history });
+
+    const report = await client.getStatusStats({
+      world: "Balmung",
+      from: 4 * HOUR,
+      to: 8 * HOUR,
+    });
+
+    expect(report.worlds).toHaveLength(1);
+    expect(report.worlds[0].populationPercent).toMatchObject({
+      congested: 50,
+      standard: 50,
+    });
+  });
+});
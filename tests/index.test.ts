@@ -64,6 +64,31 @@ describe("LodestoneWorldStatus", () => {
     expect(result).toBe(null);
   });
 
+  it("should find worlds despite punctuation, accents and typos", async () => {
+    for (const name of ["excalibur.", "Éxcalibur", "Excalibur (Primal)"]) {
+      expect(await client.checkWorldStatus(name)).toHaveProperty(
+        "name",
+        "Excalibur",
+      );
+    }
+    expect(await client.checkWorldStatus("Excaliubr")).toHaveProperty(
+      "name",
+      "Excalibur",
+    );
+  });
+
+  it("should suggest worlds with their data center and score", async () => {
+    const suggestions = await client.suggestWorlds("Cactur");
+
+    expect(suggestions[0]).toEqual({
+      name: "Cactuar",
+      dataCenter: "Aether",
+      region: "na",
+      score: expect.closeTo(6 / 7),
+    });
+    expect(await client.suggestWorlds("Zodiark")).toEqual([]);
+  });
+
   it("should get all worlds organized by data center", async () => {
     const result = await client.getAllWorlds();
     expect(Array.isArray(result)).toBe(true);
@@ -90,6 +115,16 @@ describe("LodestoneWorldStatus", () => {
     expect(result?.worlds).toHaveLength(3);
   });
 
+  it("should find and suggest data centers by approximate name", async () => {
+    expect(await client.getDataCenter("aether!")).toHaveProperty(
+      "name",
+      "Aether",
+    );
+    expect(await client.suggestDataCenters("Ether")).toEqual([
+      { name: "Aether", region: "na", score: expect.closeTo(5 / 6) },
+    ]);
+  });
+
   it("should return null for non-existent data center", async () => {
     const result = await client.getDataCenter("NonExistent");
     expect(result).toBe(null);
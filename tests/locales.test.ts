@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import { LodestoneWorldStatus, getWorldStatusUrl } from "../src/index.js";
+import type { LodestoneLocale } from "../src/index.js";
+import {
+  createTestResponse,
+  createTestTransport,
+  readFixture,
+} from "./test-helpers.js";
+
+const japaneseHtml = readFixture("worldstatus-jp.html");
+
+describe("LodestoneWorldStatus - locales", () => {
+  it("should fetch from the North American site by default", async () => {
+    const transport = createTestTransport(() => createTestResponse(""));
+    const client = new LodestoneWorldStatus({ transport });
+
+    await client.getAllWorlds();
+
+    expect(transport.calls[0].url).toBe(
+      "https://na.finalfantasyxiv.com/lodestone/worldstatus/",
+    );
+  });
+
+  it.each<LodestoneLocale>(["na", "eu", "jp", "fr", "de"])(
+    "should fetch from the %s site",
+    async (locale) => {
+      const transport = createTestTransport(() => createTestResponse(""));
+      const client = new LodestoneWorldStatus({ transport, locale });
+
+      await client.getAllWorlds();
+
+      expect(transport.calls[0].url).toBe(getWorldStatusUrl(locale));
+      expect(transport.calls[0].url).toBe(
+        `https://${locale}.finalfantasyxiv.com/lodestone/worldstatus/`,
+      );
+    },
+  );
+
+  it("should parse localized labels from the chosen site", async () => {
+    const transport = createTestTransport(() =>
+      createTestResponse(japaneseHtml),
+    );
+    const client = new LodestoneWorldStatus({
+      transport,
+      locale: "jp",
+      strictParsing: true,
+    });
+
+    expect(await client.checkWorldStatus("Louisoix")).toEqual({
+      name: "Louisoix",
+      status: "partial-maintenance",
+      population: "congested",
+      category: "congested",
+      newCharacterCreation: false,
+    });
+  });
+
+  it("should reject unknown locales", () => {
+    expect(
+      () =>
+        new LodestoneWorldStatus({
+          locale: "kr" as unknown as LodestoneLocale,
+        }),
+    ).toThrow("Locale must be one of na, eu, jp, fr, de, got: kr");
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { HttpError, LodestoneWorldStatus } from "../src/index.js";
+import {
+  createTestResponse,
+  createTestTransport,
+  readFixture,
+} from "./test-helpers.js";
+
+const NEWS_URL = "https://na.finalfantasyxiv.com/lodestone/news/category/2";
+const DETAIL_URL = "https://na.finalfantasyxiv.com/lodestone/news/detail/";
+
+// Serves the saved news list and notices, and 404s for anything else
+function createNewsTransport() {
+  return createTestTransport((url) => {
+    if (url === NEWS_URL) {
+      return createTestResponse(readFixture("news-maintenance.html"));
+    }
+    if (url.startsWith(DETAIL_URL)) {
+      const id = url.slice(DETAIL_URL.length);
+      return createTestResponse(readFixture(`news-detail-${id}.html`));
+    }
+    return createTestResponse("", 404);
+  });
+}
+
+describe("LodestoneWorldStatus - getUpcomingMaintenance", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should return windows that haven't ended, soonest first", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-10-19T00:00:00Z"));
+    const client = new LodestoneWorldStatus({
+      transport: createNewsTransport(),
+    });
+
+    const windows = await client.getUpcomingMaintenance();
+
+    expect(windows.map((window) => window.title)).toEqual([
+      "Aether Data Center Maintenance (Oct. 20 - 21)",
+      "The Mog Station Maintenance (Oct. 22)",
+      "All Worlds Maintenance (Oct. 28)",
+    ]);
+    expect(windows[0]).toEqual({
+      title: "Aether Data Center Maintenance (Oct. 20 - 21)",
+      url: `${DETAIL_URL}c03a7d5b19`,
+      start: new Date("2026-10-21T05:00:00Z"),
+      end: new Date("2026-10-21T09:00:00Z"),
+      affected: ["Aether Data Center: Adamantoise, Cactuar, Faerie"],
+    });
+  });
+
+  it("should only read the newest notices", async () => {
+    const transport = createNewsTransport();
+    const client = new LodestoneWorldStatus({ transport });
+
+    await client.getUpcomingMaintenance();
+
+    expect(transport.calls.map((call) => call.url)).toEqual([
+      NEWS_URL,
+      `${DETAIL_URL}5d7a1e0c3c`,
+      `${DETAIL_URL}2b9c4f11aa`,
+      `${DETAIL_URL}81fe0c6d2e`,
+      `${DETAIL_URL}c03a7d5b19`,
+      `${DETAIL_URL}9e4410b7f2`,
+    ]);
+  });
+
+  it("should cache notices apart from world status", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-10-19T00:00:00Z"));
+    const transport = createNewsTransport();
+    const client = new LodestoneWorldStatus({ transport });
+
+    await client.getUpcomingMaintenance();
+    const requests = transport.calls.length;
+    expect(await client.getUpcomingMaintenance()).toHaveLength(3);
+
+    expect(transport.calls).toHaveLength(requests);
+    expect(client.getCacheStats().hasData).toBe(false);
+
+    client.clearCache();
+    await client.getUpcomingMaintenance();
+    expect(transport.calls).toHaveLength(requests * 2);
+  });
+
+  it("should drop cached windows once they end", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-10-21T08:00:00Z"));
+    const client = new LodestoneWorldStatus({
+      transport: createNewsTransport(),
+      cacheExpirationMs: 60 * 60 * 1000,
+    });
+
+    // Aether maintenance is in progress
+    expect(await client.getUpcomingMaintenance()).toHaveLength(3);
+
+    vi.setSystemTime(new Date("2026-10-21T09:00:00Z"));
+    expect(await client.getUpcomingMaintenance()).toHaveLength(2);
+  });
+
+  it("should surface failed notice requests as typed errors", async () => {
+    const client = new LodestoneWorldStatus({
+      transport: createTestTransport((url) =>
+        url === NEWS_URL
+          ? createTestResponse(readFixture("news-maintenance.html"))
+          : createTestResponse("", 503),
+      ),
+    });
+
+    const error = await client.getUpcomingMaintenance().catch((e) => e);
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error).toMatchObject({
+      status: 503,
+      url: `${DETAIL_URL}5d7a1e0c3c`,
+    });
+  });
+});
@@ -0,0 +1,233 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createServer } from "node:http";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  LodestoneWorldStatus,
+  MemoryCacheStorage,
+  PROMETHEUS_CONTENT_TYPE,
+  WorldStatusMetrics,
+  createMetricsHandler,
+  formatWorldStatusMetrics,
+} from "../src/index.js";
+import type { DataCenter } from "../src/index.js";
+import {
+  createTestClock,
+  createTestDataCenter,
+  createTestResponse,
+  createTestTransport,
+} from "./test-helpers.js";
+
+const dataCenters = [
+  createTestDataCenter("Aether", "na", [
+    {
+      name: "Adamantoise",
+      status: "online",
+      population: "congested",
+      newCharacterCreation: false,
+    },
+  ]),
+  createTestDataCenter("Chaos", "eu", [
+    {
+      name: "Cerberus",
+      status: "maintenance",
+      population: "standard",
+      newCharacterCreation: true,
+    },
+  ]),
+];
+
+const ADAMANTOISE = 'world="Adamantoise",data_center="Aether",region="na"';
+const CERBERUS = 'world="Cerberus",data_center="Chaos",region="eu"';
+
+describe("formatWorldStatusMetrics", () => {
+  it("should export status as a state set", () => {
+    const text = formatWorldStatusMetrics(dataCenters);
+
+    expect(text).toContain("# TYPE lodestone_world_status gauge\n");
+    expect(text).toContain(
+      `lodestone_world_status{${ADAMANTOISE},status="online"} 1\n`,
+    );
+    expect(text).toContain(
+      `lodestone_world_status{${ADAMANTOISE},status="maintenance"} 0\n`,
+    );
+    expect(text).toContain(
+      `lodestone_world_status{${CERBERUS},status="maintenance"} 1\n`,
+    );
+  });
+
+  it("should export population and character creation", () => {
+    const text = formatWorldStatusMetrics(dataCenters);
+
+    expect(text).toContain(
+      `lodestone_world_population{${ADAMANTOISE},population="congested"} 1\n`,
+    );
+    expect(text).toContain(
+      `lodestone_world_population{${ADAMANTOISE},population="standard"} 0\n`,
+    );
+    expect(text).toContain(
+      `lodestone_world_character_creation_available{${ADAMANTOISE}} 0\n`,
+    );
+    expect(text).toContain(
+      `lodestone_world_character_creation_available{${CERBERUS}} 1\n`,
+    );
+  });
+
+  it("should apply the prefix and escape label values", () => {
+    // Names are validated when parsed; escaping guards the exposition format
+    const text = formatWorldStatusMetrics(
+      [
+        {
+          name: 'Odd "DC"',
+          region: "na",
+          worlds: [{ ...dataCenters[0].worlds[0], name: "Back\\slash" }],
+        } as unknown as DataCenter,
+      ],
+      "ffxiv",
+    );
+
+    expect(text).toContain(
+      'ffxiv_world_character_creation_available{world="Back\\\\slash",data_center="Odd \\"DC\\"",region="na"} 0\n',
+    );
+  });
+
+  it("should still describe every metric when there are no worlds", () => {
+    expect(formatWorldStatusMetrics([])).toBe(
+      [
+        "# HELP lodestone_world_status Whether the world is in the given status (1) or not (0)",
+        "# TYPE lodestone_world_status gauge",
+        "# HELP lodestone_world_population Whether the world is at the given population level (1) or not (0)",
+        "# TYPE lodestone_world_population gauge",
+        "# HELP lodestone_world_character_creation_available Whether new characters can be created on the world",
+        "# TYPE lodestone_world_character_creation_available gauge",
+        "",
+      ].join("\n"),
+    );
+  });
+});
+
+describe("WorldStatusMetrics", () => {
+  it("should reject an invalid prefix", () => {
+    expect(
+      () =>
+        new WorldStatusMetrics({ getAllWorlds: vi.fn() }, { prefix: "1-bad" }),
+    ).toThrow(
+      "Metrics prefix must be a valid Prometheus metric name, got: 1-bad",
+    );
+  });
+
+  it("should export scrape duration and world metrics", async () => {
+    const clock = createTestClock(1000);
+    const metrics = new WorldStatusMetrics(
+      {
+        getAllWorlds: async () => {
+          await clock.sleep(250);
+          return dataCenters;
+        },
+      },
+      { clock },
+    );
+
+    const text = await metrics.collect();
+
+    expect(text).toContain("lodestone_scrape_success 1\n");
+    expect(text).toContain("lodestone_scrape_duration_seconds 0.25\n");
+    expect(text).toContain("lodestone_scrapes_total 1\n");
+    expect(text).toContain("lodestone_scrape_failures_total 0\n");
+    expect(text).toContain(
+      `lodestone_world_status{${ADAMANTOISE},status="online"} 1\n`,
+    );
+    expect(text).not.toContain("lodestone_cache_hits_total");
+  });
+
+  it("should record failures instead of throwing", async () => {
+    const metrics = new WorldStatusMetrics({
+      getAllWorlds: vi.fn().mockRejectedValue(new Error("offline")),
+    });
+
+    await metrics.collect();
+    const text = await metrics.collect();
+
+    expect(text).toContain("lodestone_scrape_success 0\n");
+    expect(text).toContain("lodestone_scrapes_total 2\n");
+    expect(text).toContain("lodestone_scrape_failures_total 2\n");
+    expect(text).not.toContain("lodestone_world_status{");
+  });
+
+  it("should export cache hits and misses from the client", async () => {
+    const transport = createTestTransport(() =>
+      createTestResponse("<html><body></body></html>"),
+    );
+    const client = new LodestoneWorldStatus({ transport });
+    const metrics = new WorldStatusMetrics(client);
+
+    await metrics.collect();
+    await metrics.collect();
+    const text = await metrics.collect();
+
+    expect(transport.calls).toHaveLength(1);
+    expect(text).toContain("# TYPE lodestone_cache_hits_total counter\n");
+    expect(text).toContain("lodestone_cache_hits_total 2\n");
+    expect(text).toContain("lodestone_cache_misses_total 1\n");
+  });
+
+  it("should count a lookup restored from storage as one hit", async () => {
+    const storage = new MemoryCacheStorage();
+    const transport = createTestTransport(() =>
+      createTestResponse("<html><body></body></html>"),
+    );
+    await new LodestoneWorldStatus({ storage, transport }).getAllWorlds();
+    const client = new LodestoneWorldStatus({ storage, transport });
+    const metrics = new WorldStatusMetrics(client);
+
+    const text = await metrics.collect();
+
+    expect(transport.calls).toHaveLength(1);
+    expect(client.getCacheStats()).toMatchObject({ hits: 1, misses: 0 });
+    expect(text).toContain("lodestone_cache_hits_total 1\n");
+    expect(text).toContain("lodestone_cache_misses_total 0\n");
+  });
+});
+
+describe("createMetricsHandler", () => {
+  let server: Server | undefined;
+
+  afterEach(async () => {
+    await new Promise((resolve) => server?.close(resolve) ?? resolve(null));
+    server = undefined;
+  });
+
+  async function listen(metrics: WorldStatusMetrics): Promise<string> {
+    server = createServer(createMetricsHandler(metrics));
+    await new Promise<void>((resolve) =>
+      server!.listen(0, "127.0.0.1", resolve),
+    );
+    const { port } = server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}/metrics`;
+  }
+
+  it("should serve metrics with the Prometheus content type", async () => {
+    const url = await listen(
+      new WorldStatusMetrics({
+        getAllWorlds: vi.fn().mockResolvedValue(dataCenters),
+      }),
+    );
+
+    const response = await fetch(url);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe(PROMETHEUS_CONTENT_TYPE);
+    expect(await response.text()).toContain("lodestone_scrape_success 1\n");
+  });
+
+  it("should reject other methods", async () => {
+    const getAllWorlds = vi.fn();
+    const url = await listen(new WorldStatusMetrics({ getAllWorlds }));
+
+    const response = await fetch(url, { method: "POST" });
+
+    expect(response.status).toBe(405);
+    expect(response.headers.get("allow")).toBe("GET, HEAD");
+    expect(getAllWorlds).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect } from "vitest";
+import {
+  LodestoneWorldStatus,
+  WORLD_REGISTRY,
+  WORLD_REGISTRY_VERSION,
+  findRegistryDataCenter,
+  findRegistryWorld,
+  parseWorldStatus,
+  validateWorldStatus,
+} from "../src/index.js";
+import type { WorldRegistry } from "../src/index.js";
+import {
+  createTestDataCenter,
+  createTestResponse,
+  createTestTransport,
+  createTestWorld,
+  readFixture,
+} from "./test-helpers.js";
+
+// Just enough of a registry to validate against without listing every world
+const SMALL_REGISTRY: WorldRegistry = {
+  version: "test",
+  dataCenters: WORLD_REGISTRY.dataCenters.filter((dc) => dc.name === "Crystal"),
+  worlds: WORLD_REGISTRY.worlds.filter((world) =>
+    ["Balmung", "Zalera"].includes(world.name),
+  ),
+};
+
+describe("WORLD_REGISTRY", () => {
+  it("should be versioned and list every world once", () => {
+    const names = WORLD_REGISTRY.worlds.map((world) => world.name);
+
+    expect(WORLD_REGISTRY.version).toBe(WORLD_REGISTRY_VERSION);
+    expect(new Set(names).size).toBe(names.length);
+    expect(names).toHaveLength(
+      WORLD_REGISTRY.dataCenters.reduce(
+        (total, dc) => total + dc.worlds.length,
+        0,
+      ),
+    );
+  });
+
+  it("should only list worlds in regions we know", () => {
+    for (const dc of WORLD_REGISTRY.dataCenters) {
+      expect(["na", "eu", "oc", "jp"]).toContain(dc.region);
+      expect(dc.worlds.length).toBeGreaterThan(0);
+    }
+  });
+});
+
+describe("findRegistryWorld", () => {
+  it("should answer which data center a world is on", () => {
+    expect(findRegistryWorld("Zalera")).toEqual({
+      name: "Zalera",
+      dataCenter: "Crystal",
+      region: "na",
+      location: { city: "Sacramento", country: "United States" },
+      aliases: [],
+    });
+    expect(findRegistryWorld("twintania")).toMatchObject({
+      dataCenter: "Light",
+      region: "eu",
+      location: { city: "London" },
+    });
+  });
+
+  it("should resolve aliases and ignore accents", () => {
+    expect(findRegistryWorld("Midgard")?.name).toBe("Midgardsormr");
+    expect(findRegistryWorld("sarga")?.name).toBe("Sargatanas");
+    expect(findRegistryWorld("Ragnarök")?.name).toBe("Ragnarok");
+  });
+
+  it("should return null for unknown worlds", () => {
+    expect(findRegistryWorld("Nowhere")).toBeNull();
+    expect(findRegistryWorld("Zalera", SMALL_REGISTRY)).not.toBeNull();
+    expect(findRegistryWorld("Twintania", SMALL_REGISTRY)).toBeNull();
+  });
+});
+
+describe("findRegistryDataCenter", () => {
+  it("should list a data center's region, location and worlds", () => {
+    const dc = findRegistryDataCenter("materia");
+
+    expect(dc).toMatchObject({
+      name: "Materia",
+      region: "oc",
+      location: { city: "Sydney", country: "Australia" },
+    });
+    expect(dc?.worlds).toContain("Ravana");
+    expect(findRegistryDataCenter("Nocturne")).toBeNull();
+  });
+});
+
+describe("validateWorldStatus", () => {
+  it("should accept results that match the registry", () => {
+    const result = validateWorldStatus(
+      [
+        createTestDataCenter("Crystal", "na", [
+          createTestWorld("Balmung"),
+          createTestWorld("Zalera"),
+        ]),
+      ],
+      SMALL_REGISTRY,
+    );
+
+    expect(result).toEqual({
+      valid: true,
+      unknownWorlds: [],
+      unknownDataCenters: [],
+      movedWorlds: [],
+      missingWorlds: [],
+    });
+  });
+
+  it("should flag unknown, moved and missing worlds", () => {
+    const result = validateWorldStatus(
+      [
+        createTestDataCenter("Crystal", "na", [createTestWorld("Novus")]),
+        createTestDataCenter("Nocturne", "na", [createTestWorld("Balmung")]),
+      ],
+      SMALL_REGISTRY,
+    );
+
+    expect(result).toEqual({
+      valid: false,
+      unknownWorlds: [{ world: "Novus", dataCenter: "Crystal" }],
+      unknownDataCenters: ["Nocturne"],
+      movedWorlds: [
+        {
+          world: "Balmung",
+          dataCenter: "Nocturne",
+          expectedDataCenter: "Crystal",
+        },
+      ],
+      missingWorlds: [{ world: "Zalera", dataCenter: "Crystal" }],
+    });
+  });
+
+  it("should find no unknown worlds in real Lodestone markup", () => {
+    const result = validateWorldStatus(
+      parseWorldStatus(readFixture("worldstatus.html")),
+    );
+
+    expect(result.unknownWorlds).toEqual([]);
+    expect(result.unknownDataCenters).toEqual([]);
+    expect(result.movedWorlds).toEqual([]);
+    // The fixture only lists a few worlds per data center
+    expect(result.valid).toBe(false);
+  });
+});
+
+describe("LodestoneWorldStatus - world aliases", () => {
+  it("should check world status by alias", async () => {
+    const client = new LodestoneWorldStatus({
+      transport: createTestTransport(() =>
+        createTestResponse(readFixture("worldstatus.html")),
+      ),
+    });
+
+    expect(await client.checkWorldStatus("Gilga")).toHaveProperty(
+      "name",
+      "Gilgamesh",
+    );
+  });
+});
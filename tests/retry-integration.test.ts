@@ -0,0 +1,154 @@
+import { describe, it, expect } from "vitest";
+import { LodestoneWorldStatus, RequestAbortedError } from "../src/index.js";
+import {
+  createTestClock,
+  createTestResponse,
+  createTestTransport,
+  createWorldStatusHtml,
+} from "./test-helpers.js";
+
+const worldStatusHtml = createWorldStatusHtml();
+
+/**
+ * Transport that replays the given statuses before succeeding
+ */
+function flakyTransport(statuses: number[]) {
+  let call = 0;
+  return createTestTransport(() => {
+    const status = statuses[call++];
+    if (status === undefined) {
+      return createTestResponse(worldStatusHtml);
+    }
+    if (status === 0) {
+      throw new Error("socket hang up");
+    }
+    return createTestResponse("", status);
+  });
+}
+
+describe("Retry Integration Tests", () => {
+  it("should not retry unless a retry policy is configured", async () => {
+    const transport = flakyTransport([503]);
+    const client = new LodestoneWorldStatus({ transport });
+
+    await expect(client.getAllWorlds()).rejects.toThrow(
+      "HTTP error! status: 503",
+    );
+    expect(transport.calls).toHaveLength(1);
+  });
+
+  it("should retry transient failures until the fetch succeeds", async () => {
+    const transport = flakyTransport([0, 502, 504]);
+    const clock = createTestClock();
+    const client = new LodestoneWorldStatus({
+      transport,
+      clock,
+      retry: { maxAttempts: 4, jitter: "none" },
+    });
+
+    const world = await client.checkWorldStatus("Adamantoise");
+
+    expect(world?.name).toBe("Adamantoise");
+    expect(transport.calls).toHaveLength(4);
+    expect(clock.sleeps).toEqual([500, 1000, 2000]);
+  });
+
+  it("should retry a timed out attempt with a fresh timeout", async () => {
+    let call = 0;
+    const transport = createTestTransport(() =>
+      call++ === 0
+        ? new Promise<never>(() => {})
+        : createTestResponse(worldStatusHtml),
+    );
+    const clock = createTestClock();
+    const client = new LodestoneWorldStatus({
+      transport,
+      clock,
+      timeoutMs: 10,
+      retry: { jitter: "none" },
+    });
+
+    const world = await client.checkWorldStatus("Adamantoise");
+
+    expect(world?.name).toBe("Adamantoise");
+    expect(transport.calls).toHaveLength(2);
+    expect(clock.sleeps).toEqual([500]);
+  });
+
+  it("should not retry non-retryable HTTP statuses", async () => {
+    const transport = flakyTransport([500]);
+    const client = new LodestoneWorldStatus({
+      transport,
+      clock: createTestClock(),
+      retry: {},
+    });
+
+    await expect(client.getAllWorlds()).rejects.toThrow(
+      "HTTP error! status: 500",
+    );
+    expect(transport.calls).toHaveLength(1);
+  });
+
+  it("should fail once max attempts are exhausted", async () => {
+    const transport = flakyTransport([503, 503, 503]);
+    const client = new LodestoneWorldStatus({
+      transport,
+      clock: createTestClock(),
+      retry: { maxAttempts: 3 },
+    });
+
+    await expect(client.getAllWorlds()).rejects.toThrow(
+      "HTTP error! status: 503",
+    );
+    expect(transport.calls).toHaveLength(3);
+  });
+
+  it("should honor Retry-After from a 429 response", async () => {
+    let call = 0;
+    const transport = createTestTransport(() =>
+      call++ === 0
+        ? {
+            ...createTestResponse("", 429),
+            headers: new Headers({ "Retry-After": "3" }),
+          }
+        : createTestResponse(worldStatusHtml),
+    );
+    const clock = createTestClock();
+    const client = new LodestoneWorldStatus({
+      transport,
+      clock,
+      retry: { maxDelayMs: 5000 },
+    });
+
+    await client.getAllWorlds();
+    expect(clock.sleeps).toEqual([3000]);
+  });
+
+  it("should stop retrying once the signal aborts", async () => {
+    const controller = new AbortController();
+    const transport = flakyTransport([503, 503, 503]);
+    const clock = createTestClock();
+    const client = new LodestoneWorldStatus({
+      transport,
+      clock: {
+        ...clock,
+        sleep: async (ms) => {
+          controller.abort();
+          await clock.sleep(ms);
+        },
+      },
+      retry: { maxAttempts: 3 },
+    });
+
+    await expect(
+      client.getAllWorlds({ signal: controller.signal }),
+    ).rejects.toBeInstanceOf(RequestAbortedError);
+    expect(transport.calls).toHaveLength(1);
+  });
+
+  it("should validate the retry policy", () => {
+    expect(
+      () => new LodestoneWorldStatus({ retry: { maxAttempts: -1 } }),
+    ).toThrow("Retry maxAttempts must be a positive integer, got: -1");
+  });
+});
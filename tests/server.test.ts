@@ -0,0 +1,222 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { LodestoneWorldStatus, createWorldStatusServer } from "../src/index.js";
+import type { WorldStatusServerOptions } from "../src/index.js";
+import {
+  createTestResponse,
+  createTestTransport,
+  createWorldStatusHtml,
+} from "./test-helpers.js";
+
+const worldStatusHtml = createWorldStatusHtml({
+  Aether: ["Adamantoise Standard", "Cactuar Congested"],
+  Chaos: ["Cerberus Preferred"],
+});
+
+describe("createWorldStatusServer", () => {
+  let server: Server | undefined;
+
+  beforeEach(() => {
+    // Only Date is faked so that sockets and timers keep working
+    vi.useFakeTimers({ toFake: ["Date"] });
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await new Promise((resolve) => server?.close(resolve) ?? resolve(null));
+    server = undefined;
+  });
+
+  async function listen(
+    client: LodestoneWorldStatus,
+    options?: WorldStatusServerOptions,
+  ): Promise<string> {
+    server = createWorldStatusServer(client, options);
+    await new Promise<void>((resolve) =>
+      server!.listen(0, "127.0.0.1", resolve),
+    );
+    const { port } = server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  function createClient() {
+    const transport = createTestTransport(() =>
+      createTestResponse(worldStatusHtml),
+    );
+    return {
+      transport,
+      client: new LodestoneWorldStatus({ transport }),
+    };
+  }
+
+  it("should list every world", async () => {
+    const { client } = createClient();
+    const url = await listen(client);
+
+    const response = await fetch(`${url}/worlds`);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe(
+      "application/json; charset=utf-8",
+    );
+    const worlds = (await response.json()) as Array<{ name: string }>;
+    expect(worlds.map((world) => world.name)).toEqual([
+      "Adamantoise",
+      "Cactuar",
+      "Cerberus",
+    ]);
+  });
+
+  it("should return a single world by name", async () => {
+    const { client } = createClient();
+    const url = await listen(client);
+
+    const response = await fetch(`${url}/worlds/cactuar`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      name: "Cactuar",
+      population: "congested",
+    });
+  });
+
+  it("should return data centers and regions", async () => {
+    const { client, transport } = createClient();
+    const url = await listen(client);
+
+    const all = await fetch(`${url}/datacenters`);
+    const aether = await fetch(`${url}/datacenters/Aether`);
+    const eu = await fetch(`${url}/regions/eu`);
+
+    expect(((await all.json()) as unknown[]).length).toBe(2);
+    expect(await aether.json()).toMatchObject({ name: "Aether", region: "na" });
+    expect(await eu.json()).toEqual([
+      expect.objectContaining({ name: "Chaos" }),
+    ]);
+    expect(transport.calls).toHaveLength(1);
+  });
+
+  it("should send cache headers for the time left in the cache", async () => {
+    const { client } = createClient();
+    const url = await listen(client);
+
+    const first = await fetch(`${url}/worlds`);
+    vi.advanceTimersByTime(60 * 1000);
+    const second = await fetch(`${url}/worlds`);
+
+    expect(first.headers.get("cache-control")).toBe("public, max-age=300");
+    expect(second.headers.get("cache-control")).toBe("public, max-age=240");
+  });
+
+  it.each([
+    ["/worlds/Nowhere", { error: "World not found: Nowhere", suggestions: [] }],
+    [
+      "/datacenters/Nowhere",
+      { error: "Data center not found: Nowhere", suggestions: [] },
+    ],
+    ["/regions/moon", { error: "Unknown region: moon" }],
+    ["/regions", { error: "Unknown region: " }],
+    ["/unknown", { error: "Not found" }],
+    ["/worlds/Adamantoise/extra", { error: "Not found" }],
+    ["/toString", { error: "Not found" }],
+    ["/constructor", { error: "Not found" }],
+    ["/hasOwnProperty/x", { error: "Not found" }],
+    ["/__proto__", { error: "Not found" }],
+  ])("should return 404 for %s", async (path, body) => {
+    const { client } = createClient();
+    const url = await listen(client);
+
+    const response = await fetch(`${url}${path}`);
+
+    expect(response.status).toBe(404);
+    expect(response.headers.get("cache-control")).toBe("no-store");
+    expect(await response.json()).toEqual(body);
+  });
+
+  it("should suggest close names for unknown worlds and data centers", async () => {
+    const { client } = createClient();
+    const url = await listen(client);
+
+    const world = await fetch(`${url}/worlds/Adamtose`);
+    const dataCenter = await fetch(`${url}/datacenters/Kaos`);
+
+    expect(await world.json()).toMatchObject({
+      suggestions: ["Adamantoise"],
+    });
+    expect(await dataCenter.json()).toMatchObject({ suggestions: ["Chaos"] });
+  });
+
+  it("should decode names in the path", async () => {
+    const { client } = createClient();
+    const url = await listen(client);
+
+    const malformed = await fetch(`${url}/worlds/%E0%A4%A`);
+    const encoded = await fetch(`${url}/worlds/Adamantoise%20`);
+
+    expect(malformed.status).toBe(400);
+    expect(encoded.status).toBe(200);
+  });
+
+  it("should reject methods other than GET and HEAD", async () => {
+    const { client, transport } = createClient();
+    const url = await listen(client);
+
+    const post = await fetch(`${url}/worlds`, { method: "POST" });
+    const head = await fetch(`${url}/worlds`, { method: "HEAD" });
+
+    expect(post.status).toBe(405);
+    expect(post.headers.get("allow")).toBe("GET, HEAD");
+    expect(head.status).toBe(200);
+    expect(await head.text()).toBe("");
+    expect(transport.calls).toHaveLength(1);
+  });
+
+  it("should mount the routes under a base path", async () => {
+    const { client } = createClient();
+    const url = await listen(client, { basePath: "/api/" });
+
+    expect((await fetch(`${url}/api/worlds/Cerberus`)).status).toBe(200);
+    expect((await fetch(`${url}/worlds/Cerberus`)).status).toBe(404);
+    expect((await fetch(`${url}/apiworlds`)).status).toBe(404);
+  });
+
+  it("should return 502 when Lodestone fails", async () => {
+    const client = new LodestoneWorldStatus({
+      transport: createTestTransport(() => createTestResponse("", 503)),
+    });
+    const url = await listen(client);
+
+    const response = await fetch(`${url}/worlds`);
+
+    expect(response.status).toBe(502);
+    expect(await response.json()).toEqual({
+      error: "HTTP error! status: 503",
+    });
+  });
+
+  it("should not expose unexpected errors", async () => {
+    const { client } = createClient();
+    vi.spyOn(client, "getAllWorldsFlat").mockRejectedValue(
+      new TypeError("route is not a function"),
+    );
+    const url = await listen(client);
+
+    const response = await fetch(`${url}/worlds`);
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: "Internal server error" });
+  });
+
+  it("should return 504 when Lodestone times out", async () => {
+    const client = new LodestoneWorldStatus({
+      timeoutMs: 10,
+      transport: createTestTransport(() => new Promise(() => {})),
+    });
+    const url = await listen(client);
+
+    const response = await fetch(`${url}/worlds`);
+
+    expect(response.status).toBe(504);
+  });
+});
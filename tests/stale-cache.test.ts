@@ -0,0 +1,188 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { LodestoneWorldStatus } from "../src/index.js";
+import {
+  createTestResponse,
+  createTestTransport,
+  createWorldStatusHtml,
+} from "./test-helpers.js";
+
+function worldStatusHtml(population: string): string {
+  return createWorldStatusHtml({ Aether: [`Adamantoise ${population}`] });
+}
+
+describe("Stale Cache Policies", () => {
+  let responses: Array<() => ReturnType<typeof createTestResponse>>;
+  let transport: ReturnType<typeof createTestTransport>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    responses = [];
+    transport = createTestTransport(() => {
+      const next = responses.shift();
+      if (!next) {
+        throw new Error("No response queued");
+      }
+      return next();
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("stale-while-revalidate", () => {
+    it("should return expired data immediately and refresh in the background", async () => {
+      const client = new LodestoneWorldStatus({
+        cacheExpirationMs: 5000,
+        cachePolicy: { staleWhileRevalidateMs: 60000 },
+        transport,
+      });
+      responses.push(() => createTestResponse(worldStatusHtml("Standard")));
+      await client.getAllWorlds();
+
+      vi.advanceTimersByTime(6000);
+      responses.push(() => createTestResponse(worldStatusHtml("Congested")));
+
+      const stale = await client.checkWorldStatus("Adamantoise");
+      expect(stale?.population).toBe("standard");
+      expect(client.getCacheStats().servedStale).toBe(true);
+
+      // Let the background refresh complete
+      await vi.runAllTimersAsync();
+
+      const fresh = await client.checkWorldStatus("Adamantoise");
+      expect(fresh?.population).toBe("congested");
+      expect(client.getCacheStats().servedStale).toBe(false);
+      expect(transport.calls).toHaveLength(2);
+    });
+
+    it("should start only one background refresh at a time", async () => {
+      const client = new LodestoneWorldStatus({
+        cacheExpirationMs: 5000,
+        cachePolicy: { staleWhileRevalidateMs: 60000 },
+        transport,
+      });
+      responses.push(() => createTestResponse(worldStatusHtml("Standard")));
+      await client.getAllWorlds();
+
+      vi.advanceTimersByTime(6000);
+      responses.push(() => createTestResponse(worldStatusHtml("Standard")));
+
+      await Promise.all([
+        client.getAllWorlds(),
+        client.getAllWorlds(),
+        client.getAllWorlds(),
+      ]);
+      await vi.runAllTimersAsync();
+
+      expect(transport.calls).toHaveLength(2);
+    });
+
+    it("should keep serving stale data when the background refresh fails", async () => {
+      const client = new LodestoneWorldStatus({
+        cacheExpirationMs: 5000,
+        cachePolicy: { staleWhileRevalidateMs: 60000 },
+        transport,
+      });
+      responses.push(() => createTestResponse(worldStatusHtml("Standard")));
+      await client.getAllWorlds();
+
+      vi.advanceTimersByTime(6000);
+      responses.push(() => createTestResponse("", 503));
+
+      const stale = await client.checkWorldStatus("Adamantoise");
+      await vi.runAllTimersAsync();
+
+      expect(stale?.population).toBe("standard");
+      expect(client.getCacheStats().hasData).toBe(true);
+    });
+
+    it("should block on a fresh fetch once the stale window has passed", async () => {
+      const client = new LodestoneWorldStatus({
+        cacheExpirationMs: 5000,
+        cachePolicy: { staleWhileRevalidateMs: 1000 },
+        transport,
+      });
+      responses.push(() => createTestResponse(worldStatusHtml("Standard")));
+      await client.getAllWorlds();
+
+      vi.advanceTimersByTime(7000);
+      responses.push(() => createTestResponse(worldStatusHtml("Congested")));
+
+      const world = await client.checkWorldStatus("Adamantoise");
+      expect(world?.population).toBe("congested");
+      expect(client.getCacheStats().servedStale).toBe(false);
+    });
+  });
+
+  describe("stale-if-error", () => {
+    it("should serve the last good data when Lodestone is down", async () => {
+      const client = new LodestoneWorldStatus({
+        cacheExpirationMs: 5000,
+        cachePolicy: { staleIfErrorMs: 60000 },
+        transport,
+      });
+      responses.push(() => createTestResponse(worldStatusHtml("Standard")));
+      const original = await client.getAllWorlds();
+
+      vi.advanceTimersByTime(6000);
+      responses.push(() => createTestResponse("", 503));
+
+      const result = await client.getAllWorlds();
+      expect(result).toBe(original);
+      expect(client.getCacheStats().servedStale).toBe(true);
+      expect(client.getCacheStats().isValid).toBe(false);
+    });
+
+    it("should rethrow once the data is older than the stale window", async () => {
+      const client = new LodestoneWorldStatus({
+        cacheExpirationMs: 5000,
+        cachePolicy: { staleIfErrorMs: 1000 },
+        transport,
+      });
+      responses.push(() => createTestResponse(worldStatusHtml("Standard")));
+      await client.getAllWorlds();
+
+      vi.advanceTimersByTime(7000);
+      responses.push(() => createTestResponse("", 503));
+
+      await expect(client.getAllWorlds()).rejects.toThrow(
+        "HTTP error! status: 503",
+      );
+    });
+
+    it("should not serve stale data when the caller aborts", async () => {
+      const client = new LodestoneWorldStatus({
+        cacheExpirationMs: 5000,
+        cachePolicy: { staleIfErrorMs: 60000 },
+        transport,
+      });
+      responses.push(() => createTestResponse(worldStatusHtml("Standard")));
+      await client.getAllWorlds();
+
+      vi.advanceTimersByTime(6000);
+
+      await expect(
+        client.getAllWorlds({ signal: AbortSignal.abort() }),
+      ).rejects.toThrow("was aborted");
+    });
+
+    it("should still fail when there is no cached data at all", async () => {
+      const client = new LodestoneWorldStatus({
+        cachePolicy: { staleIfErrorMs: 60000 },
+        transport,
+      });
+      responses.push(() => createTestResponse("", 503));
+
+      await expect(client.getAllWorlds()).rejects.toThrow(
+        "HTTP error! status: 503",
+      );
+    });
+  });
+
+  it("should reject negative stale windows", () => {
+    expect(
+      () => new LodestoneWorldStatus({ cachePolicy: { staleIfErrorMs: -1 } }),
+    ).toThrow("Cache policy stale windows must not be negative");
+  });
+});
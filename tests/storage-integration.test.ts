@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  LodestoneWorldStatus,
+  MemoryCacheStorage,
+  serializeWorldStatusEntry,
+} from "../src/index.js";
+import type { CacheStorageAdapter } from "../src/index.js";
+import {
+  createTestDataCenter,
+  createTestResponse,
+  createTestTransport,
+  createWorldStatusHtml,
+} from "./test-helpers.js";
+
+const worldStatusHtml = createWorldStatusHtml();
+
+const storedDataCenters = [
+  createTestDataCenter("Crystal", "na", [
+    {
+      name: "Balmung",
+      status: "online",
+      population: "congested",
+      newCharacterCreation: false,
+    },
+  ]),
+];
+
+describe("Storage Integration Tests", () => {
+  let storage: MemoryCacheStorage;
+  let transport: ReturnType<typeof createTestTransport>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    storage = new MemoryCacheStorage();
+    transport = createTestTransport(() => createTestResponse(worldStatusHtml));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should write fetched data to storage", async () => {
+    const client = new LodestoneWorldStatus({ storage, transport });
+
+    await client.getAllWorlds();
+
+    const stored = JSON.parse((await storage.get("lodestone-world-status"))!);
+    expect(stored.storedAt).toBe(Date.now());
+    expect(stored.data[0].name).toBe("Aether");
+  });
+
+  it("should serve stored data on a cold start without scraping", async () => {
+    await storage.set(
+      "lodestone-world-status",
+      serializeWorldStatusEntry({
+        data: storedDataCenters,
+        storedAt: Date.now(),
+      }),
+    );
+    const client = new LodestoneWorldStatus({ storage, transport });
+
+    const world = await client.checkWorldStatus("Balmung");
+
+    expect(world?.population).toBe("congested");
+    expect(transport.calls).toHaveLength(0);
+  });
+
+  it("should expire stored data from its stored timestamp", async () => {
+    await storage.set(
+      "lodestone-world-status",
+      serializeWorldStatusEntry({
+        data: storedDataCenters,
+        storedAt: Date.now() - 6000,
+      }),
+    );
+    const client = new LodestoneWorldStatus({
+      cacheExpirationMs: 5000,
+      storage,
+      transport,
+    });
+
+    const dataCenters = await client.getAllWorlds();
+
+    expect(dataCenters[0].name).toBe("Aether");
+    expect(transport.calls).toHaveLength(1);
+  });
+
+  it("should keep the remaining lifetime of restored data", async () => {
+    await storage.set(
+      "lodestone-world-status",
+      serializeWorldStatusEntry({
+        data: storedDataCenters,
+        storedAt: Date.now() - 2000,
+      }),
+    );
+    const client = new LodestoneWorldStatus({
+      cacheExpirationMs: 5000,
+      storage,
+      transport,
+    });
+
+    await client.getAllWorlds();
+
+    expect(client.getCacheStats().timeUntilExpirationMs).toBe(3000);
+  });
+
+  it("should share data between clients using the same storage", async () => {
+    const first = new LodestoneWorldStatus({ storage, transport });
+    const second = new LodestoneWorldStatus({ storage, transport });
+
+    await first.getAllWorlds();
+    await second.getAllWorlds();
+
+    expect(transport.calls).toHaveLength(1);
+  });
+
+  it("should use a custom storage key", async () => {
+    const client = new LodestoneWorldStatus({
+      storage,
+      storageKey: "custom",
+      transport,
+    });
+
+    await client.getAllWorlds();
+
+    expect(await storage.get("custom")).not.toBeNull();
+    expect(await storage.get("lodestone-world-status")).toBeNull();
+  });
+
+  it("should ignore corrupt stored data", async () => {
+    await storage.set("lodestone-world-status", "not json");
+    const client = new LodestoneWorldStatus({ storage, transport });
+
+    const dataCenters = await client.getAllWorlds();
+
+    expect(dataCenters[0].name).toBe("Aether");
+  });
+
+  it("should not fail fetches when storage is unavailable", async () => {
+    const brokenStorage: CacheStorageAdapter = {
+      get: () => Promise.reject(new Error("ECONNREFUSED")),
+      set: () => Promise.reject(new Error("ECONNREFUSED")),
+      delete: () => Promise.reject(new Error("ECONNREFUSED")),
+    };
+    const client = new LodestoneWorldStatus({
+      storage: brokenStorage,
+      transport,
+    });
+
+    await expect(client.getAllWorlds()).resolves.toHaveLength(1);
+    expect(() => client.clearCache()).not.toThrow();
+  });
+
+  it("should not restore cleared data on the next request", async () => {
+    const client = new LodestoneWorldStatus({ storage, transport });
+    await client.getAllWorlds();
+
+    client.clearCache();
+    await client.getAllWorlds();
+
+    expect(transport.calls).toHaveLength(2);
+  });
+});
@@ -0,0 +1,333 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createServer } from "node:http";
+import type { Server } from "node:http";
+import { connect } from "node:net";
+import type { Socket } from "node:net";
+import type { AddressInfo } from "node:net";
+import {
+  WorldStatusStream,
+  WorldStatusWatcher,
+  diffWorldStatus,
+  toStreamChanges,
+} from "../src/index.js";
+import type { WorldStatusStreamMessage } from "../src/index.js";
+import { createTestDataCenter, createTestSnapshot } from "./test-helpers.js";
+
+describe("toStreamChanges", () => {
+  it("should collapse field changes into one message per world", () => {
+    const previous = createTestSnapshot("online");
+    const current = createTestSnapshot("maintenance", "congested");
+
+    expect(toStreamChanges(diffWorldStatus(previous, current))).toEqual([
+      {
+        type: "change",
+        world: "Adamantoise",
+        dataCenter: "Aether",
+        region: "na",
+        previous: previous[0].worlds[0],
+        current: current[0].worlds[0],
+      },
+    ]);
+  });
+
+  it("should report added and removed worlds but not data centers", () => {
+    const current = [
+      createTestDataCenter("Chaos", "eu", [
+        {
+          name: "Cerberus",
+          status: "online",
+          population: "standard",
+          newCharacterCreation: true,
+        },
+      ]),
+    ];
+
+    const messages = toStreamChanges(
+      diffWorldStatus(createTestSnapshot(), current),
+    );
+
+    expect(messages).toEqual([
+      expect.objectContaining({
+        world: "Cerberus",
+        previous: null,
+        current: current[0].worlds[0],
+      }),
+      expect.objectContaining({
+        world: "Adamantoise",
+        previous: createTestSnapshot()[0].worlds[0],
+        current: null,
+      }),
+    ]);
+  });
+});
+
+describe("WorldStatusStream", () => {
+  let server: Server | undefined;
+  let stream: WorldStatusStream | undefined;
+  const sockets: Socket[] = [];
+
+  afterEach(async () => {
+    stream?.close();
+    sockets.splice(0).forEach((socket) => socket.destroy());
+    await new Promise((resolve) => server?.close(resolve) ?? resolve(null));
+    server = undefined;
+    stream = undefined;
+  });
+
+  async function listen(watcher: WorldStatusWatcher): Promise<string> {
+    stream = new WorldStatusStream(watcher);
+    server = createServer((request, response) =>
+      stream!.handleEventStream(request, response),
+    );
+    server.on("upgrade", (request, socket, head) =>
+      stream!.handleUpgrade(request, socket, head),
+    );
+    await new Promise<void>((resolve) =>
+      server!.listen(0, "127.0.0.1", resolve),
+    );
+    const { port } = server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  it("should reject an invalid heartbeat interval", () => {
+    const watcher = new WorldStatusWatcher({ getAllWorlds: vi.fn() });
+
+    expect(() => new WorldStatusStream(watcher, { heartbeatMs: 0 })).toThrow(
+      "Stream heartbeat must be a positive integer, got: 0",
+    );
+  });
+
+  describe("Server-Sent Events", () => {
+    async function readEvents(
+      response: Response,
+      count: number,
+    ): Promise<Array<{ event: string; data: WorldStatusStreamMessage }>> {
+      const reader = response.body!.pipeThrough(new TextDecoderStream());
+      const events: Array<{ event: string; data: WorldStatusStreamMessage }> =
+        [];
+      let text = "";
+      for await (const chunk of reader) {
+        text += chunk;
+        const blocks = text.split("\n\n");
+        text = blocks.pop()!;
+        for (const block of blocks) {
+          const event = /^event: (.*)$/m.exec(block)?.[1];
+          const data = /^data: (.*)$/m.exec(block)?.[1];
+          if (event && data) {
+            events.push({ event, data: JSON.parse(data) });
+          }
+        }
+        if (events.length >= count) {
+          return events;
+        }
+      }
+      return events;
+    }
+
+    it("should send a snapshot on connect and then changes", async () => {
+      const watcher = new WorldStatusWatcher({ getAllWorlds: vi.fn() });
+      watcher.update(createTestSnapshot("online"));
+      const url = await listen(watcher);
+
+      const response = await fetch(url);
+      expect(response.headers.get("content-type")).toBe(
+        "text/event-stream; charset=utf-8",
+      );
+      const events = readEvents(response, 2);
+      await vi.waitFor(() => expect(stream!.getSubscriberCount()).toBe(1));
+      watcher.update(createTestSnapshot("maintenance"));
+
+      expect(await events).toEqual([
+        {
+          event: "snapshot",
+          data: { type: "snapshot", dataCenters: createTestSnapshot("online") },
+        },
+        {
+          event: "change",
+          data: expect.objectContaining({
+            type: "change",
+            world: "Adamantoise",
+            dataCenter: "Aether",
+            region: "na",
+            previous: expect.objectContaining({ status: "online" }),
+            current: expect.objectContaining({ status: "maintenance" }),
+          }),
+        },
+      ]);
+    });
+
+    it("should send the first snapshot to subscribers that connect early", async () => {
+      const watcher = new WorldStatusWatcher({ getAllWorlds: vi.fn() });
+      const url = await listen(watcher);
+
+      const events = readEvents(await fetch(url), 1);
+      await vi.waitFor(() => expect(stream!.getSubscriberCount()).toBe(1));
+      watcher.emit("snapshot", createTestSnapshot());
+      watcher.update(createTestSnapshot());
+
+      expect(await events).toEqual([
+        {
+          event: "snapshot",
+          data: { type: "snapshot", dataCenters: createTestSnapshot() },
+        },
+      ]);
+    });
+
+    it("should drop subscribers that disconnect", async () => {
+      const watcher = new WorldStatusWatcher({ getAllWorlds: vi.fn() });
+      const url = await listen(watcher);
+      const controller = new AbortController();
+
+      await fetch(url, { signal: controller.signal });
+      await vi.waitFor(() => expect(stream!.getSubscriberCount()).toBe(1));
+      controller.abort();
+
+      await vi.waitFor(() => expect(stream!.getSubscriberCount()).toBe(0));
+    });
+  });
+
+  describe("WebSocket", () => {
+    function readFrames(socket: Socket, count: number): Promise<string[]> {
+      return new Promise((resolve) => {
+        let buffered = Buffer.alloc(0);
+        const frames: string[] = [];
+        socket.on("data", (data: Buffer) => {
+          buffered = Buffer.concat([buffered, data]);
+          for (;;) {
+            if (frames.length === 0 && buffered.includes("\r\n\r\n")) {
+              const end = buffered.indexOf("\r\n\r\n") + 4;
+              frames.push(buffered.subarray(0, end).toString());
+              buffered = buffered.subarray(end);
+              continue;
+            }
+            if (frames.length === 0 || buffered.length < 2) {
+              break;
+            }
+            let length = buffered[1] & 0x7f;
+            let offset = 2;
+            if (length === 126) {
+              length = buffered.readUInt16BE(2);
+              offset = 4;
+            }
+            if (buffered.length < offset + length) {
+              break;
+            }
+            frames.push(
+              `${buffered[0] & 0x0f}:${buffered.subarray(offset, offset + length).toString()}`,
+            );
+            buffered = buffered.subarray(offset + length);
+          }
+          if (frames.length >= count) {
+            resolve(frames);
+          }
+        });
+      });
+    }
+
+    function maskedFrame(opcode: number, payload: Buffer): Buffer {
+      const mask = Buffer.from([1, 2, 3, 4]);
+      const masked = payload.map((byte, i) => byte ^ mask[i % 4]);
+      return Buffer.concat([
+        Buffer.from([0x80 | opcode, 0x80 | payload.length]),
+        mask,
+        masked,
+      ]);
+    }
+
+    async function open(url: string, count: number) {
+      const { port } = new URL(url);
+      const socket = connect(Number(port), "127.0.0.1");
+      sockets.push(socket);
+      const frames = readFrames(socket, count);
+      socket.write(
+        [
+          "GET /ws HTTP/1.1",
+          "Host: localhost",
+          "Upgrade: websocket",
+          "Connection: Upgrade",
+          "Sec-WebSocket-Key: dGhlIHNhbXBsZSBub25jZQ==",
+          "Sec-WebSocket-Version: 13",
+          "",
+          "",
+        ].join("\r\n"),
+      );
+      return { socket, frames };
+    }
+
+    it("should complete the handshake and send snapshot and changes", async () => {
+      const watcher = new WorldStatusWatcher({ getAllWorlds: vi.fn() });
+      watcher.update(createTestSnapshot("online"));
+      const url = await listen(watcher);
+
+      const { frames } = await open(url, 3);
+      await vi.waitFor(() => expect(stream!.getSubscriberCount()).toBe(1));
+      watcher.update(createTestSnapshot("online", "congested"));
+
+      const [handshake, first, second] = await frames;
+      expect(handshake).toContain("HTTP/1.1 101 Switching Protocols");
+      // Accept value from the example in RFC 6455
+      expect(handshake).toContain(
+        "Sec-WebSocket-Accept: s3pPLMBiTxaQ9kYGzzhZRbK+xOo=",
+      );
+      expect(JSON.parse(first.slice(2))).toEqual({
+        type: "snapshot",
+        dataCenters: createTestSnapshot("online"),
+      });
+      expect(JSON.parse(second.slice(2))).toMatchObject({
+        type: "change",
+        world: "Adamantoise",
+        previous: { population: "standard" },
+        current: { population: "congested" },
+      });
+    });
+
+    it("should answer pings and close frames", async () => {
+      const watcher = new WorldStatusWatcher({ getAllWorlds: vi.fn() });
+      const url = await listen(watcher);
+
+      const { socket, frames } = await open(url, 3);
+      await vi.waitFor(() => expect(stream!.getSubscriberCount()).toBe(1));
+      socket.write(maskedFrame(0x9, Buffer.from("hi")));
+      const code = Buffer.alloc(2);
+      code.writeUInt16BE(1000);
+      socket.write(maskedFrame(0x8, code));
+
+      const [, pong, close] = await frames;
+      expect(pong).toBe("10:hi");
+      expect(close.startsWith("8:")).toBe(true);
+      await vi.waitFor(() => expect(stream!.getSubscriberCount()).toBe(0));
+    });
+
+    it("should reject requests that are not WebSocket upgrades", async () => {
+      const watcher = new WorldStatusWatcher({ getAllWorlds: vi.fn() });
+      const url = await listen(watcher);
+      const { port } = new URL(url);
+      const socket = connect(Number(port), "127.0.0.1");
+      sockets.push(socket);
+
+      const response = new Promise<string>((resolve) =>
+        socket.once("data", (data) => resolve(data.toString())),
+      );
+      socket.write(
+        "GET /ws HTTP/1.1\r\nHost: localhost\r\nConnection: Upgrade\r\nUpgrade: websocket\r\n\r\n",
+      );
+
+      expect(await response).toContain("HTTP/1.1 400 Bad Request");
+      expect(stream!.getSubscriberCount()).toBe(0);
+    });
+  });
+
+  it("should disconnect subscribers and stop listening when closed", async () => {
+    const watcher = new WorldStatusWatcher({ getAllWorlds: vi.fn() });
+    watcher.update(createTestSnapshot());
+    const url = await listen(watcher);
+
+    const response = await fetch(url);
+    await vi.waitFor(() => expect(stream!.getSubscriberCount()).toBe(1));
+    stream!.close();
+
+    expect(stream!.getSubscriberCount()).toBe(0);
+    expect(watcher.listenerCount("changes")).toBe(0);
+    expect(await response.text()).toContain("event: snapshot");
+  });
+});
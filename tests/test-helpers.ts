@@ -1,6 +1,22 @@
-import type { DataCenter, WorldStatus } from "../src/types/index.js";
+import { readFileSync } from "node:fs";
+import type {
+  Clock,
+  DataCenter,
+  HttpRequestOptions,
+  HttpResponse,
+  HttpTransport,
+  WorldCategory,
+  WorldStatus,
+} from "../src/types/index.js";
 import { createWorldName, createDataCenterName } from "../src/types/index.js";
 
+/**
+ * Helper function to read a saved Lodestone page or config from tests/fixtures
+ */
+export function readFixture(name: string): string {
+  return readFileSync(new URL(`./fixtures/${name}`, import.meta.url), "utf8");
+}
+
 /**
  * Helper function to create test data center objects with proper branded types
  */
@@ -16,6 +32,7 @@ export function createTestDataCenter(
       | "congested"
       | "preferred+"
       | "unknown";
+    category?: WorldCategory;
     newCharacterCreation: boolean;
   }> = [],
 ): DataCenter {
@@ -26,6 +43,7 @@ export function createTestDataCenter(
       name: createWorldName(world.name),
       status: world.status,
       population: world.population,
+      category: world.category ?? world.population,
       newCharacterCreation: world.newCharacterCreation,
     })),
   };
@@ -48,11 +66,104 @@ export function createTestWorld(
     | "preferred+"
     | "unknown" = "standard",
   newCharacterCreation: boolean = true,
+  category: WorldCategory = population,
 ): WorldStatus {
   return {
     name: createWorldName(name),
     status,
     population,
+    category,
     newCharacterCreation,
   };
 }
+
+/**
+ * Helper function to create a world status snapshot with a single world,
+ * Adamantoise on Aether, in the given state
+ */
+export function createTestSnapshot(
+  status: "online" | "maintenance" = "online",
+  population: "standard" | "congested" = "standard",
+): DataCenter[] {
+  return [
+    createTestDataCenter("Aether", "na", [
+      {
+        name: "Adamantoise",
+        status,
+        population,
+        newCharacterCreation: population !== "congested",
+      },
+    ]),
+  ];
+}
+
+/**
+ * Helper function to create a minimal world status page, with a heading and
+ * a list of "World Population" items for each data center
+ */
+export function createWorldStatusHtml(
+  dataCenters: Readonly<Record<string, readonly string[]>> = {
+    Aether: ["Adamantoise Standard"],
+  },
+): string {
+  const sections = Object.entries(dataCenters).map(([dcName, worlds]) => {
+    const items = worlds.map((world) => `<li>${world}</li>`).join("");
+    return `<h2>${dcName}</h2><ul>${items}</ul>`;
+  });
+  return `<html><body>${sections.join("")}</body></html>`;
+}
+
+/**
+ * Helper function to create an HTTP response for use with a test transport
+ */
+export function createTestResponse(
+  body: string,
+  status: number = 200,
+): HttpResponse {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: status >= 200 && status < 300 ? "OK" : "Error",
+    text: () => Promise.resolve(body),
+  };
+}
+
+/**
+ * Helper function to create an HTTP transport that records every request
+ */
+export function createTestTransport(
+  handler: (
+    url: string,
+    options?: HttpRequestOptions,
+  ) => HttpResponse | Promise<HttpResponse>,
+): HttpTransport & {
+  readonly calls: Array<{ url: string; options?: HttpRequestOptions }>;
+} {
+  const calls: Array<{ url: string; options?: HttpRequestOptions }> = [];
+  return {
+    calls,
+    fetch: async (url, options) => {
+      calls.push({ url, options });
+      return handler(url, options);
+    },
+  };
+}
+
+/**
+ * Helper function to create a clock whose sleeps resolve immediately while
+ * advancing its own time, recording every requested delay
+ */
+export function createTestClock(start: number = 0): Clock & {
+  readonly sleeps: number[];
+} {
+  let now = start;
+  const sleeps: number[] = [];
+  return {
+    sleeps,
+    now: () => now,
+    sleep: async (ms) => {
+      sleeps.push(ms);
+      now += ms;
+    },
+  };
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect } from "vitest";
+import {
+  LodestoneWorldStatus,
+  LodestoneError,
+  RequestAbortedError,
+  RequestTimeoutError,
+} from "../src/index.js";
+import {
+  createTestResponse,
+  createTestTransport,
+  createWorldStatusHtml,
+} from "./test-helpers.js";
+
+const worldStatusHtml = createWorldStatusHtml();
+
+// A transport that never responds, like a hung Lodestone
+const hangingTransport = createTestTransport(() => new Promise(() => {}));
+
+describe("LodestoneWorldStatus - timeouts", () => {
+  it("should fail with RequestTimeoutError after the default timeout", async () => {
+    const client = new LodestoneWorldStatus({
+      transport: hangingTransport,
+      timeoutMs: 20,
+    });
+
+    const error = await client.getAllWorlds().catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(RequestTimeoutError);
+    expect(error).toBeInstanceOf(LodestoneError);
+    expect((error as RequestTimeoutError).timeoutMs).toBe(20);
+  });
+
+  it("should allow overriding the timeout per call", async () => {
+    const client = new LodestoneWorldStatus({
+      transport: hangingTransport,
+      timeoutMs: 60 * 1000,
+    });
+
+    await expect(
+      client.checkWorldStatus("Adamantoise", { timeoutMs: 10 }),
+    ).rejects.toThrow("timed out after 10ms");
+  });
+
+  it("should not wrap timeouts as world status fetch failures", async () => {
+    const client = new LodestoneWorldStatus({
+      transport: hangingTransport,
+      timeoutMs: 10,
+    });
+
+    await expect(client.getDataCenter("Aether")).rejects.not.toThrow(
+      "Failed to fetch world status",
+    );
+  });
+
+  it("should reject invalid timeouts", () => {
+    expect(() => new LodestoneWorldStatus({ timeoutMs: 0 })).toThrow(
+      "Request timeout must be a positive integer, got: 0",
+    );
+    expect(() => new LodestoneWorldStatus({ timeoutMs: 1.5 })).toThrow(
+      "Request timeout must be a positive integer, got: 1.5",
+    );
+  });
+});
+
+describe("LodestoneWorldStatus - AbortSignal", () => {
+  it("should fail with RequestAbortedError when the signal aborts", async () => {
+    const client = new LodestoneWorldStatus({ transport: hangingTransport });
+    const controller = new AbortController();
+
+    const pending = client.getWorldsByRegion("na", {
+      signal: controller.signal,
+    });
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(RequestAbortedError);
+  });
+
+  it("should pass the signal through every client method", async () => {
+    const client = new LodestoneWorldStatus({ transport: hangingTransport });
+    const signal = AbortSignal.abort();
+
+    await expect(client.fetchWorldStatus({ signal })).rejects.toBeInstanceOf(
+      RequestAbortedError,
+    );
+    await expect(
+      client.checkWorldStatus("Adamantoise", { signal }),
+    ).rejects.toBeInstanceOf(RequestAbortedError);
+    await expect(client.getAllWorlds({ signal })).rejects.toBeInstanceOf(
+      RequestAbortedError,
+    );
+    await expect(client.getAllWorldsFlat({ signal })).rejects.toBeInstanceOf(
+      RequestAbortedError,
+    );
+    await expect(
+      client.getDataCenter("Aether", { signal }),
+    ).rejects.toBeInstanceOf(RequestAbortedError);
+    await expect(
+      client.getWorldsByRegion("na", { signal }),
+    ).rejects.toBeInstanceOf(RequestAbortedError);
+  });
+
+  it("should hand the transport an AbortSignal", async () => {
+    const transport = createTestTransport(() =>
+      createTestResponse(worldStatusHtml),
+    );
+    const client = new LodestoneWorldStatus({ transport });
+
+    await client.getAllWorlds();
+
+    expect(transport.calls[0].options?.signal).toBeInstanceOf(AbortSignal);
+  });
+
+  it("should not cache anything when a request is aborted", async () => {
+    const client = new LodestoneWorldStatus({ transport: hangingTransport });
+
+    await expect(
+      client.getAllWorlds({ signal: AbortSignal.abort() }),
+    ).rejects.toThrow();
+
+    expect(client.getCacheStats().hasData).toBe(false);
+  });
+});
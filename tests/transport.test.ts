@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { LodestoneWorldStatus } from "../src/index.js";
+import {
+  createTestResponse,
+  createTestTransport,
+  createWorldStatusHtml,
+} from "./test-helpers.js";
+
+const worldStatusHtml = createWorldStatusHtml({
+  Aether: ["Adamantoise Standard", "Cactuar Congested"],
+});
+
+describe("LodestoneWorldStatus - HTTP transport", () => {
+  it("should fetch world status through the injected transport", async () => {
+    const transport = createTestTransport(() =>
+      createTestResponse(worldStatusHtml),
+    );
+    const client = new LodestoneWorldStatus({ transport });
+
+    const world = await client.checkWorldStatus("Cactuar");
+
+    expect(world?.population).toBe("congested");
+    expect(transport.calls).toHaveLength(1);
+    expect(transport.calls[0].url).toBe(
+      "https://na.finalfantasyxiv.com/lodestone/worldstatus/",
+    );
+  });
+
+  it("should use the transport for every fetch the client makes", async () => {
+    const transport = createTestTransport(() =>
+      createTestResponse(worldStatusHtml),
+    );
+    const client = new LodestoneWorldStatus({ transport });
+
+    await client.getAllWorlds();
+    client.clearCache();
+    await client.getDataCenter("Aether");
+
+    expect(transport.calls).toHaveLength(2);
+  });
+
+  it("should surface HTTP errors returned by the transport", async () => {
+    const transport = createTestTransport(() => createTestResponse("", 503));
+    const client = new LodestoneWorldStatus({ transport });
+
+    await expect(client.getAllWorlds()).rejects.toThrow(
+      "HTTP error! status: 503",
+    );
+  });
+
+  it("should surface errors thrown by the transport", async () => {
+    const transport = createTestTransport(() => {
+      throw new Error("Proxy refused connection");
+    });
+    const client = new LodestoneWorldStatus({ transport });
+
+    await expect(client.getAllWorlds()).rejects.toThrow(
+      "Proxy refused connection",
+    );
+  });
+
+  it("should accept cache expiration alongside the transport", async () => {
+    const transport = createTestTransport(() =>
+      createTestResponse(worldStatusHtml),
+    );
+    const client = new LodestoneWorldStatus({
+      cacheExpirationMs: 10000,
+      transport,
+    });
+
+    expect(client.getCacheStats().expirationMs).toBe(10000);
+  });
+
+  it("should still validate cache expiration passed through options", () => {
+    expect(() => new LodestoneWorldStatus({ cacheExpirationMs: 0 })).toThrow(
+      "Cache expiration must be a positive integer, got: 0",
+    );
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect } from "vitest";
+import {
+  LodestoneWorldStatus,
+  checkTravelEligibility,
+  locateWorld,
+} from "../src/index.js";
+import type { DataCenter } from "../src/index.js";
+import {
+  createTestDataCenter,
+  createTestResponse,
+  createTestTransport,
+  createTestWorld,
+  readFixture,
+} from "./test-helpers.js";
+
+const DATA_CENTERS: DataCenter[] = [
+  createTestDataCenter("Aether", "na", [
+    createTestWorld("Gilgamesh", "online", "congested", false),
+    createTestWorld("Siren", "maintenance", "standard"),
+    createTestWorld("Jenova", "online", "unknown"),
+  ]),
+  createTestDataCenter("Crystal", "na", [
+    createTestWorld("Zalera", "online", "preferred"),
+    createTestWorld("Balmung", "online", "congested", false),
+    createTestWorld("Goblin", "partial-maintenance", "standard"),
+    createTestWorld("Coeurl", "unknown", "standard"),
+  ]),
+  createTestDataCenter("Dynamis", "na", [
+    createTestWorld("Cuchulainn", "online", "unknown", true, "new"),
+  ]),
+  createTestDataCenter("Light", "eu", [
+    createTestWorld("Twintania", "online", "standard"),
+  ]),
+  {
+    ...createTestDataCenter("Nocturne", "na", [createTestWorld("Novus")]),
+    region: "unknown",
+  },
+];
+
+const check = (home: string, target: string) =>
+  checkTravelEligibility(DATA_CENTERS, home, target);
+
+describe("checkTravelEligibility", () => {
+  it("should allow Data Center Travel within a region", () => {
+    const result = check("Gilgamesh", "Zalera");
+
+    expect(result).toMatchObject({
+      allowed: true,
+      kind: "data-center-travel",
+      home: { dataCenter: "Aether", region: "na" },
+      target: { dataCenter: "Crystal", region: "na" },
+      restrictions: [],
+    });
+    expect(result.target?.world.name).toBe("Zalera");
+  });
+
+  it("should allow World Visits to Congested worlds", () => {
+    expect(check("Zalera", "Balmung")).toMatchObject({
+      allowed: true,
+      kind: "world-visit",
+      restrictions: [],
+    });
+  });
+
+  it("should refuse Data Center Travel to Congested worlds", () => {
+    expect(check("Zalera", "Gilgamesh")).toMatchObject({
+      allowed: false,
+      kind: "data-center-travel",
+      restrictions: ["target-congested"],
+    });
+  });
+
+  it("should refuse travel across regions", () => {
+    expect(check("Zalera", "Twintania").restrictions).toEqual([
+      "different-region",
+    ]);
+  });
+
+  it("should refuse travel to or from worlds in maintenance", () => {
+    expect(check("Zalera", "Siren").restrictions).toEqual([
+      "target-maintenance",
+    ]);
+    expect(check("Zalera", "Goblin").restrictions).toEqual([
+      "target-maintenance",
+    ]);
+    expect(check("Siren", "Zalera").restrictions).toEqual(["home-maintenance"]);
+  });
+
+  it("should list every restriction that applies", () => {
+    expect(check("Siren", "Twintania").restrictions).toEqual([
+      "different-region",
+      "home-maintenance",
+    ]);
+    expect(check("Zalera", "Zalera")).toMatchObject({
+      allowed: false,
+      kind: "world-visit",
+      restrictions: ["same-world"],
+    });
+  });
+
+  it("should treat unknown regions, statuses and populations as restrictions", () => {
+    expect(check("Zalera", "Novus").restrictions).toEqual(["unknown-region"]);
+    expect(check("Zalera", "Coeurl").restrictions).toEqual(["unknown-status"]);
+    expect(check("Zalera", "Jenova").restrictions).toEqual([
+      "unknown-population",
+    ]);
+  });
+
+  it("should allow travel to New worlds without a population", () => {
+    expect(check("Zalera", "Cuchulainn").allowed).toBe(true);
+  });
+
+  it("should refuse travel involving unknown worlds", () => {
+    expect(check("Zalera", "Nowhere")).toEqual({
+      allowed: false,
+      kind: null,
+      home: expect.objectContaining({ dataCenter: "Crystal" }),
+      target: null,
+      restrictions: ["unknown-world"],
+    });
+  });
+
+  it("should look worlds up by alias and with typos", () => {
+    expect(check("gilga", "Zaelra")).toMatchObject({
+      allowed: true,
+      home: { world: { name: "Gilgamesh" } },
+      target: { world: { name: "Zalera" } },
+    });
+  });
+});
+
+describe("locateWorld", () => {
+  it("should find worlds by name, alias or close spelling", () => {
+    expect(locateWorld(DATA_CENTERS, "zalera")).toMatchObject({
+      world: { name: "Zalera" },
+      dataCenter: "Crystal",
+      region: "na",
+    });
+    expect(
+      locateWorld(
+        [
+          createTestDataCenter("Aether", "na", [
+            createTestWorld("Midgardsormr"),
+          ]),
+        ],
+        "Midgard",
+      )?.world.name,
+    ).toBe("Midgardsormr");
+    expect(locateWorld(DATA_CENTERS, "Twintnia")?.world.name).toBe("Twintania");
+    expect(locateWorld(DATA_CENTERS, "Nowhere")).toBeNull();
+  });
+});
+
+describe("LodestoneWorldStatus - checkTravelEligibility", () => {
+  it("should check travel against the current world status", async () => {
+    const client = new LodestoneWorldStatus({
+      transport: createTestTransport(() =>
+        createTestResponse(readFixture("worldstatus.html")),
+      ),
+    });
+
+    await expect(
+      client.checkTravelEligibility("Brynhildr", "Gilgamesh"),
+    ).resolves.toMatchObject({
+      allowed: false,
+      restrictions: ["target-congested"],
+    });
+    await expect(
+      client.checkTravelEligibility("Gilgamesh", "Brynhildr"),
+    ).resolves.toMatchObject({ allowed: true, kind: "data-center-travel" });
+    await expect(
+      client.checkTravelEligibility("Gilgamesh", "Alpha"),
+    ).resolves.toMatchObject({ restrictions: ["different-region"] });
+  });
+});
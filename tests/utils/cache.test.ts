@@ -192,6 +192,9 @@ describe("Cache", () => {
         ageMs: null,
         timeUntilExpirationMs: null,
         expirationMs: 5000,
+        servedStale: false,
+        hits: 0,
+        misses: 0,
       });
     });
 
@@ -206,6 +209,9 @@ describe("Cache", () => {
         ageMs: 2000,
         timeUntilExpirationMs: 3000,
         expirationMs: 5000,
+        servedStale: false,
+        hits: 0,
+        misses: 0,
       });
     });
 
@@ -220,10 +226,93 @@ describe("Cache", () => {
         ageMs: 6000,
         timeUntilExpirationMs: 0,
         expirationMs: 5000,
+        servedStale: false,
+        hits: 0,
+        misses: 0,
       });
     });
   });
 
+  describe("hit and miss counts", () => {
+    it("should count hits and misses", () => {
+      cache.get();
+      cache.set("test data");
+      cache.get();
+      cache.get();
+      vi.advanceTimersByTime(6000);
+      cache.get();
+
+      expect(cache.getStats()).toMatchObject({ hits: 2, misses: 2 });
+    });
+
+    it("should keep counting across clear", () => {
+      cache.set("test data");
+      cache.get();
+      cache.clear();
+      cache.get();
+
+      expect(cache.getStats()).toMatchObject({ hits: 1, misses: 1 });
+    });
+
+    it("should only count peeks when told the outcome", () => {
+      expect(cache.peek()).toBeNull();
+      cache.set("test data");
+      expect(cache.peek()).toBe("test data");
+      expect(cache.getStats()).toMatchObject({ hits: 0, misses: 0 });
+
+      cache.countLookup(true);
+      expect(cache.getStats()).toMatchObject({ hits: 1, misses: 0 });
+    });
+  });
+
+  describe("getStale", () => {
+    it("should return null while data is still fresh", () => {
+      cache.set("test data");
+      expect(cache.getStale()).toBeNull();
+    });
+
+    it("should return null when cache is empty", () => {
+      expect(cache.getStale()).toBeNull();
+    });
+
+    it("should return expired data within the stale window", () => {
+      cache.set("test data");
+      vi.advanceTimersByTime(6000); // 1 second past expiration
+
+      expect(cache.getStale(2000)).toBe("test data");
+      expect(cache.getStats().servedStale).toBe(true);
+    });
+
+    it("should return null once data is older than the stale window", () => {
+      cache.set("test data");
+      vi.advanceTimersByTime(8000); // 3 seconds past expiration
+
+      expect(cache.getStale(2000)).toBeNull();
+      expect(cache.getStats().servedStale).toBe(false);
+    });
+
+    it("should serve expired data indefinitely without a window", () => {
+      cache.set("test data");
+      vi.advanceTimersByTime(24 * 60 * 60 * 1000);
+
+      expect(cache.getStale()).toBe("test data");
+    });
+
+    it("should reset the stale flag on fresh hits and writes", () => {
+      cache.set("test data");
+      vi.advanceTimersByTime(6000);
+      cache.getStale();
+
+      cache.set("new data");
+      expect(cache.getStats().servedStale).toBe(false);
+
+      vi.advanceTimersByTime(6000);
+      cache.getStale();
+      cache.clear();
+      expect(cache.getStats().servedStale).toBe(false);
+    });
+  });
+
   describe("complex data types", () => {
     it("should work with objects", () => {
       const objectCache = new Cache<{ name: string; value: number }>(5000);
@@ -0,0 +1,137 @@
+import { describe, it, expect, vi } from "vitest";
+import { RequestCoalescer } from "../../src/utils/coalesce.js";
+
+/**
+ * Creates a promise whose settlement is controlled by the test
+ */
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+describe("RequestCoalescer", () => {
+  it("should share one operation between concurrent callers", async () => {
+    const coalescer = new RequestCoalescer<string>();
+    const pending = deferred<string>();
+    const operation = vi.fn(() => pending.promise);
+
+    const results = Promise.all([
+      coalescer.run(operation),
+      coalescer.run(operation),
+      coalescer.run(operation),
+    ]);
+    pending.resolve("shared");
+
+    await expect(results).resolves.toEqual(["shared", "shared", "shared"]);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it("should propagate a failure to every caller", async () => {
+    const coalescer = new RequestCoalescer<string>();
+    const pending = deferred<string>();
+
+    const first = coalescer.run(() => pending.promise);
+    const second = coalescer.run(() => pending.promise);
+    pending.reject(new Error("boom"));
+
+    await expect(first).rejects.toThrow("boom");
+    await expect(second).rejects.toThrow("boom");
+  });
+
+  it("should start a new operation once the previous one settles", async () => {
+    const coalescer = new RequestCoalescer<number>();
+    let calls = 0;
+    const operation = async () => ++calls;
+
+    expect(await coalescer.run(operation)).toBe(1);
+    expect(coalescer.isPending()).toBe(false);
+    expect(await coalescer.run(operation)).toBe(2);
+  });
+
+  it("should reject only the caller whose signal aborts", async () => {
+    const coalescer = new RequestCoalescer<string>();
+    const pending = deferred<string>();
+    const controller = new AbortController();
+    let sharedSignal: AbortSignal | undefined;
+
+    const aborted = coalescer.run((signal) => {
+      sharedSignal = signal;
+      return pending.promise;
+    }, controller.signal);
+    const patient = coalescer.run(() => pending.promise);
+
+    controller.abort();
+    await expect(aborted).rejects.toThrow();
+    expect(sharedSignal?.aborted).toBe(false);
+
+    pending.resolve("done");
+    await expect(patient).resolves.toBe("done");
+  });
+
+  it("should abort the shared operation once every caller has aborted", async () => {
+    const coalescer = new RequestCoalescer<string>();
+    const first = new AbortController();
+    const second = new AbortController();
+    let sharedSignal: AbortSignal | undefined;
+    const operation = (signal: AbortSignal) => {
+      sharedSignal = signal;
+      return new Promise<string>(() => {});
+    };
+
+    const a = coalescer.run(operation, first.signal);
+    const b = coalescer.run(operation, second.signal);
+
+    first.abort();
+    expect(sharedSignal?.aborted).toBe(false);
+    second.abort();
+    expect(sharedSignal?.aborted).toBe(true);
+
+    await expect(a).rejects.toThrow();
+    await expect(b).rejects.toThrow();
+  });
+
+  it("should start a new operation when joining after every earlier waiter aborted", async () => {
+    const coalescer = new RequestCoalescer<string>();
+    const controller = new AbortController();
+    const first = deferred<string>();
+    const second = deferred<string>();
+    const operation = vi
+      .fn<(signal: AbortSignal) => Promise<string>>()
+      .mockReturnValueOnce(first.promise)
+      .mockReturnValueOnce(second.promise);
+
+    const aborted = coalescer.run(operation, controller.signal);
+    controller.abort();
+    const late = coalescer.run(operation);
+
+    expect(operation).toHaveBeenCalledTimes(2);
+    await expect(aborted).rejects.toThrow();
+
+    // The cancelled operation settling must not clear the new one
+    first.reject(new Error("aborted"));
+    await first.promise.catch(() => {});
+    expect(coalescer.isPending()).toBe(true);
+
+    second.resolve("fresh");
+    await expect(late).resolves.toBe("fresh");
+  });
+
+  it("should use the abort error factory", async () => {
+    const coalescer = new RequestCoalescer<string>();
+    const operation = vi.fn();
+
+    await expect(
+      coalescer.run(
+        operation,
+        AbortSignal.abort("stop"),
+        (reason) => new Error(`aborted: ${reason}`),
+      ),
+    ).rejects.toThrow("aborted: stop");
+    expect(operation).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect } from "vitest";
+import { diffWorldStatus } from "../../src/utils/diff.js";
+import { createTestDataCenter } from "../test-helpers.js";
+
+type TestWorld = NonNullable<
+  Parameters<typeof createTestDataCenter>[2]
+>[number];
+
+function world(name: string, overrides: Partial<TestWorld> = {}): TestWorld {
+  return {
+    name,
+    status: "online",
+    population: "standard",
+    newCharacterCreation: true,
+    ...overrides,
+  };
+}
+
+const baseline = [
+  createTestDataCenter("Aether", "na", [
+    world("Adamantoise"),
+    world("Cactuar"),
+  ]),
+  createTestDataCenter("Light", "eu", [world("Lich")]),
+];
+
+describe("diffWorldStatus", () => {
+  it("should return no changes for identical snapshots", () => {
+    const copy = JSON.parse(JSON.stringify(baseline));
+    expect(diffWorldStatus(baseline, copy)).toEqual([]);
+  });
+
+  it("should report status changes with before and after values", () => {
+    const current = [
+      createTestDataCenter("Aether", "na", [
+        world("Adamantoise", { status: "maintenance" }),
+        world("Cactuar"),
+      ]),
+      baseline[1],
+    ];
+
+    const changes = diffWorldStatus(baseline, current);
+
+    expect(changes).toEqual([
+      {
+        type: "status",
+        world: "Adamantoise",
+        dataCenter: "Aether",
+        region: "na",
+        before: "online",
+        after: "maintenance",
+        previous: baseline[0].worlds[0],
+        current: current[0].worlds[0],
+      },
+    ]);
+  });
+
+  it("should report population and character creation changes separately", () => {
+    const current = [
+      createTestDataCenter("Aether", "na", [
+        world("Adamantoise"),
+        world("Cactuar", {
+          population: "congested",
+          newCharacterCreation: false,
+        }),
+      ]),
+      baseline[1],
+    ];
+
+    const changes = diffWorldStatus(baseline, current);
+
+    expect(changes.map((c) => [c.type, c.before, c.after])).toEqual([
+      ["population", "standard", "congested"],
+      ["newCharacterCreation", true, false],
+    ]);
+  });
+
+  it("should report worlds appearing and disappearing", () => {
+    const current = [
+      createTestDataCenter("Aether", "na", [
+        world("Adamantoise"),
+        world("Faerie"),
+      ]),
+      baseline[1],
+    ];
+
+    const changes = diffWorldStatus(baseline, current);
+
+    expect(changes).toHaveLength(2);
+    expect(changes[0]).toMatchObject({
+      type: "world-added",
+      world: "Faerie",
+      dataCenter: "Aether",
+      before: null,
+      after: { name: "Faerie" },
+    });
+    expect(changes[1]).toMatchObject({
+      type: "world-removed",
+      world: "Cactuar",
+      dataCenter: "Aether",
+      before: { name: "Cactuar" },
+      after: null,
+    });
+  });
+
+  it("should report data centers appearing and disappearing along with their worlds", () => {
+    const current = [
+      baseline[0],
+      createTestDataCenter("Materia", "oc", [world("Bismarck")]),
+    ];
+
+    const changes = diffWorldStatus(baseline, current);
+
+    expect(changes.map((c) => c.type)).toEqual([
+      "datacenter-added",
+      "datacenter-removed",
+      "world-added",
+      "world-removed",
+    ]);
+    expect(changes[0]).toMatchObject({
+      dataCenter: "Materia",
+      region: "oc",
+      before: null,
+    });
+    expect(changes[1]).toMatchObject({
+      dataCenter: "Light",
+      region: "eu",
+      after: null,
+    });
+  });
+
+  it("should report a world moving data centers as removed and added", () => {
+    const current = [
+      createTestDataCenter("Aether", "na", [world("Adamantoise")]),
+      createTestDataCenter("Light", "eu", [world("Lich"), world("Cactuar")]),
+    ];
+
+    const changes = diffWorldStatus(baseline, current);
+
+    expect(changes).toEqual([
+      expect.objectContaining({
+        type: "world-removed",
+        world: "Cactuar",
+        dataCenter: "Aether",
+      }),
+      expect.objectContaining({
+        type: "world-added",
+        world: "Cactuar",
+        dataCenter: "Light",
+      }),
+    ]);
+  });
+
+  it("should match worlds and data centers case-insensitively", () => {
+    const current = [
+      createTestDataCenter("AETHER", "na", [
+        world("adamantoise"),
+        world("CACTUAR"),
+      ]),
+      createTestDataCenter("light", "eu", [world("lich")]),
+    ];
+
+    expect(diffWorldStatus(baseline, current)).toEqual([]);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import {
+  findByName,
+  nameSimilarity,
+  normalizeLookupName,
+  suggestNames,
+} from "../../src/utils/fuzzy.js";
+
+const WORLDS = ["Balmung", "Brynhildr", "Gilgamesh", "Hyperion", "Lamia"];
+
+describe("normalizeLookupName", () => {
+  it("should ignore case, accents, punctuation and parentheses", () => {
+    expect(normalizeLookupName("  Balmung ")).toBe("balmung");
+    expect(normalizeLookupName("gilgamesh.")).toBe("gilgamesh");
+    expect(normalizeLookupName("Hyperion (Primal)")).toBe("hyperion");
+    expect(normalizeLookupName("Ｌａｍｉａ")).toBe("lamia");
+    expect(normalizeLookupName("Brÿnhildr")).toBe("brynhildr");
+    expect(normalizeLookupName("Red-Mage's world")).toBe("red mage s world");
+  });
+});
+
+describe("nameSimilarity", () => {
+  it("should score identical names as 1 and count swapped letters once", () => {
+    expect(nameSimilarity("Balmung", "balmung!")).toBe(1);
+    expect(nameSimilarity("Balmnug", "Balmung")).toBeCloseTo(6 / 7);
+    expect(nameSimilarity("Lamia", "Balmung")).toBeLessThan(0.5);
+    expect(nameSimilarity("", "")).toBe(0);
+  });
+});
+
+describe("suggestNames", () => {
+  it("should rank close names first with their scores", () => {
+    const suggestions = suggestNames("Brynhild", WORLDS);
+
+    expect(suggestions[0]).toEqual({
+      name: "Brynhildr",
+      score: expect.closeTo(8 / 9),
+    });
+    expect(suggestions.every(({ score }) => score >= 0.5)).toBe(true);
+  });
+
+  it("should respect the limit and minimum score", () => {
+    expect(suggestNames("Balmung", WORLDS, { limit: 1 })).toEqual([
+      { name: "Balmung", score: 1 },
+    ]);
+    expect(suggestNames("Zzz", WORLDS)).toEqual([]);
+    expect(suggestNames("Lamb", WORLDS, { minScore: 0 })).toHaveLength(5);
+  });
+});
+
+describe("findByName", () => {
+  const find = (query: string) => findByName(query, WORLDS, (name) => name);
+
+  it("should match names regardless of case, punctuation and Unicode", () => {
+    expect(find("balmung ")).toBe("Balmung");
+    expect(find("gilgamesh.")).toBe("Gilgamesh");
+    expect(find("Hyperion (Primal)")).toBe("Hyperion");
+  });
+
+  it("should correct small typos", () => {
+    expect(find("Balmnug")).toBe("Balmung");
+    expect(find("Gilgamseh")).toBe("Gilgamesh");
+  });
+
+  it("should not guess when nothing is close or the match is ambiguous", () => {
+    expect(find("Excalibur")).toBeNull();
+    expect(find("")).toBeNull();
+    expect(find("...")).toBeNull();
+    expect(findByName("Lamiu", ["Lamia", "Lamio"], (name) => name)).toBeNull();
+  });
+});
@@ -1,5 +1,8 @@
 import { describe, it, expect } from "vitest";
-import { normalizeWorldName } from "../../src/utils/index.js";
+import {
+  hasPreferredWorldBonus,
+  normalizeWorldName,
+} from "../../src/utils/index.js";
 import { isValidWorldName } from "../../src/types/index.js";
 
 describe("Utils", () => {
@@ -17,6 +20,17 @@ describe("Utils", () => {
     });
   });
 
+  describe("hasPreferredWorldBonus", () => {
+    it("should grant the bonus on Preferred and Preferred+ worlds only", () => {
+      expect(hasPreferredWorldBonus({ category: "preferred" })).toBe(true);
+      expect(hasPreferredWorldBonus({ category: "preferred+" })).toBe(true);
+      expect(hasPreferredWorldBonus({ category: "new" })).toBe(false);
+      expect(hasPreferredWorldBonus({ category: "standard" })).toBe(false);
+      expect(hasPreferredWorldBonus({ category: "congested" })).toBe(false);
+      expect(hasPreferredWorldBonus({ category: "unknown" })).toBe(false);
+    });
+  });
+
   describe("isValidWorldName", () => {
     it("should validate world names", () => {
       expect(isValidWorldName("Excalibur")).toBe(true);
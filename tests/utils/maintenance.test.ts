@@ -0,0 +1,139 @@
+import { describe, it, expect } from "vitest";
+import {
+  getMaintenanceNewsUrl,
+  parseMaintenanceList,
+  parseMaintenanceNotice,
+} from "../../src/utils/maintenance.js";
+import { readFixture } from "../test-helpers.js";
+
+const NEWS_URL = "https://na.finalfantasyxiv.com/lodestone/news/category/2";
+const DETAIL_URL = "https://na.finalfantasyxiv.com/lodestone/news/detail/";
+
+function noticeHtml(body: string): string {
+  return `
+    <article class="news__detail">
+      <header class="news__header">
+        <h1 class="news__header__title">[Maintenance] Test Maintenance</h1>
+      </header>
+      <div class="news__detail__wrapper">${body}</div>
+    </article>
+  `;
+}
+
+describe("getMaintenanceNewsUrl", () => {
+  it("should read notices from the English sites", () => {
+    expect(getMaintenanceNewsUrl("na")).toBe(NEWS_URL);
+    expect(getMaintenanceNewsUrl("eu")).toBe(
+      "https://eu.finalfantasyxiv.com/lodestone/news/category/2",
+    );
+    expect(getMaintenanceNewsUrl("de")).toBe(NEWS_URL);
+    expect(getMaintenanceNewsUrl("jp")).toBe(NEWS_URL);
+  });
+});
+
+describe("parseMaintenanceList", () => {
+  it("should list notices with their titles, links and post times", () => {
+    const notices = parseMaintenanceList(
+      readFixture("news-maintenance.html"),
+      NEWS_URL,
+    );
+
+    expect(notices).toHaveLength(6);
+    expect(notices[0]).toEqual({
+      title: "All Worlds Maintenance (Oct. 28)",
+      url: `${DETAIL_URL}5d7a1e0c3c`,
+      postedAt: new Date(1792447200 * 1000),
+    });
+    expect(notices[2].title).toBe("Issues with the Party Finder");
+  });
+
+  it("should return nothing for pages without notices", () => {
+    expect(parseMaintenanceList("<html></html>", NEWS_URL)).toEqual([]);
+  });
+});
+
+describe("parseMaintenanceNotice", () => {
+  it("should read the window in the first listed time zone as UTC", () => {
+    const url = `${DETAIL_URL}5d7a1e0c3c`;
+
+    const window = parseMaintenanceNotice(
+      readFixture("news-detail-5d7a1e0c3c.html"),
+      url,
+    );
+
+    expect(window).toEqual({
+      title: "All Worlds Maintenance (Oct. 28)",
+      url,
+      start: new Date("2026-10-28T07:00:00Z"),
+      end: new Date("2026-10-28T15:00:00Z"),
+      affected: ["FINAL FANTASY XIV", "All Worlds"],
+    });
+  });
+
+  it("should read 24-hour times and strip list markers from affected services", () => {
+    const window = parseMaintenanceNotice(
+      readFixture("news-detail-2b9c4f11aa.html"),
+      `${DETAIL_URL}2b9c4f11aa`,
+    );
+
+    expect(window).toMatchObject({
+      start: new Date("2026-10-22T08:00:00Z"),
+      end: new Date("2026-10-22T12:00:00Z"),
+      affected: ["The Mog Station", "Optional item purchases"],
+    });
+  });
+
+  it("should read windows that span two dates", () => {
+    const window = parseMaintenanceNotice(
+      readFixture("news-detail-c03a7d5b19.html"),
+      `${DETAIL_URL}c03a7d5b19`,
+    );
+
+    expect(window).toMatchObject({
+      start: new Date("2026-10-21T05:00:00Z"),
+      end: new Date("2026-10-21T09:00:00Z"),
+      affected: ["Aether Data Center: Adamantoise, Cactuar, Faerie"],
+    });
+  });
+
+  it("should move an end time past midnight to the next day", () => {
+    const window = parseMaintenanceNotice(
+      noticeHtml(
+        "[Date &amp; Time]<br>Nov. 3, 2026 11:00 p.m. to 3:00 a.m. (PST)",
+      ),
+      "url",
+    );
+
+    expect(window?.start).toEqual(new Date("2026-11-04T07:00:00Z"));
+    expect(window?.end).toEqual(new Date("2026-11-04T11:00:00Z"));
+  });
+
+  it("should leave the end empty when the notice gives none", () => {
+    const window = parseMaintenanceNotice(
+      noticeHtml(
+        "[Date &amp; Time]<br>Dec. 1, 2026 7:00 (GMT) until completion",
+      ),
+      "url",
+    );
+
+    expect(window?.start).toEqual(new Date("2026-12-01T07:00:00Z"));
+    expect(window?.end).toBeNull();
+    expect(window?.affected).toEqual([]);
+  });
+
+  it("should return null for notices without a readable schedule", () => {
+    expect(
+      parseMaintenanceNotice(
+        readFixture("news-detail-81fe0c6d2e.html"),
+        `${DETAIL_URL}81fe0c6d2e`,
+      ),
+    ).toBeNull();
+    expect(
+      parseMaintenanceNotice(
+        noticeHtml("[Date &amp; Time]<br>Oct. 28, 2026 1:00 to 5:00 (XYZ)"),
+        "url",
+      ),
+    ).toBeNull();
+    expect(parseMaintenanceNotice("<html></html>", "url")).toBeNull();
+  });
+});
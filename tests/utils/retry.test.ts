@@ -0,0 +1,206 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  DEFAULT_RETRY_POLICY,
+  computeBackoffDelay,
+  isRetryableError,
+  parseRetryAfter,
+  resolveRetryPolicy,
+  withRetry,
+} from "../../src/utils/retry.js";
+import {
+  HttpError,
+  NetworkError,
+  ParseError,
+  RequestAbortedError,
+  RequestTimeoutError,
+} from "../../src/errors/index.js";
+import { createTestClock } from "../test-helpers.js";
+
+const url = "https://example.com";
+const noJitter = resolveRetryPolicy({ jitter: "none" });
+
+describe("resolveRetryPolicy", () => {
+  it("should fill in defaults", () => {
+    expect(resolveRetryPolicy({})).toEqual(DEFAULT_RETRY_POLICY);
+    expect(resolveRetryPolicy({ maxAttempts: 5 }).maxAttempts).toBe(5);
+  });
+
+  it("should reject invalid max attempts", () => {
+    expect(() => resolveRetryPolicy({ maxAttempts: 0 })).toThrow(
+      "Retry maxAttempts must be a positive integer, got: 0",
+    );
+  });
+
+  it("should reject negative delays and shrinking backoff", () => {
+    expect(() => resolveRetryPolicy({ initialDelayMs: -1 })).toThrow(
+      "Retry delays must not be negative",
+    );
+    expect(() => resolveRetryPolicy({ backoffFactor: 0.5 })).toThrow(
+      "Retry backoffFactor must be at least 1, got: 0.5",
+    );
+  });
+});
+
+describe("isRetryableError", () => {
+  it("should retry network errors", () => {
+    expect(
+      isRetryableError(new NetworkError(url, new Error("reset")), noJitter),
+    ).toBe(true);
+  });
+
+  it("should retry 408, 429, 502, 503 and 504 only", () => {
+    for (const status of [408, 429, 502, 503, 504]) {
+      expect(isRetryableError(new HttpError(url, status), noJitter)).toBe(true);
+    }
+    for (const status of [400, 403, 404, 500]) {
+      expect(isRetryableError(new HttpError(url, status), noJitter)).toBe(
+        false,
+      );
+    }
+  });
+
+  it("should retry timeouts but not aborts or unknown errors", () => {
+    expect(isRetryableError(new RequestTimeoutError(url, 10), noJitter)).toBe(
+      true,
+    );
+    expect(isRetryableError(new RequestAbortedError(url), noJitter)).toBe(
+      false,
+    );
+    expect(isRetryableError(new Error("Parse error"), noJitter)).toBe(false);
+  });
+
+  it("should agree with the retryable flag under the default policy", () => {
+    const errors = [
+      new NetworkError(url, new Error("reset")),
+      new RequestTimeoutError(url, 10),
+      new RequestAbortedError(url),
+      new ParseError("bad markup"),
+      ...[400, 404, 408, 429, 500, 502, 503, 504].map(
+        (status) => new HttpError(url, status),
+      ),
+    ];
+
+    for (const error of errors) {
+      expect(isRetryableError(error, DEFAULT_RETRY_POLICY)).toBe(
+        error.retryable,
+      );
+    }
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("should parse delay-seconds", () => {
+    expect(parseRetryAfter("3", 0)).toBe(3000);
+  });
+
+  it("should parse HTTP dates relative to now", () => {
+    const now = Date.parse("Wed, 21 Oct 2026 07:28:00 GMT");
+    expect(parseRetryAfter("Wed, 21 Oct 2026 07:28:05 GMT", now)).toBe(5000);
+    expect(parseRetryAfter("Wed, 21 Oct 2026 07:27:00 GMT", now)).toBe(0);
+  });
+
+  it("should return null for missing or invalid values", () => {
+    expect(parseRetryAfter(null, 0)).toBeNull();
+    expect(parseRetryAfter("", 0)).toBeNull();
+    expect(parseRetryAfter("soon", 0)).toBeNull();
+  });
+});
+
+describe("computeBackoffDelay", () => {
+  it("should grow exponentially up to the max delay", () => {
+    const policy = resolveRetryPolicy({
+      initialDelayMs: 100,
+      maxDelayMs: 1000,
+      jitter: "none",
+    });
+    expect(computeBackoffDelay(1, policy)).toBe(100);
+    expect(computeBackoffDelay(2, policy)).toBe(200);
+    expect(computeBackoffDelay(3, policy)).toBe(400);
+    expect(computeBackoffDelay(5, policy)).toBe(1000);
+  });
+
+  it("should apply full jitter from the random source", () => {
+    const policy = resolveRetryPolicy({ initialDelayMs: 100 });
+    expect(computeBackoffDelay(2, policy, () => 0.5)).toBe(100);
+    expect(computeBackoffDelay(2, policy, () => 0)).toBe(0);
+  });
+});
+
+describe("withRetry", () => {
+  it("should return the first successful result", async () => {
+    const clock = createTestClock();
+    const operation = vi
+      .fn()
+      .mockRejectedValueOnce(new HttpError(url, 503))
+      .mockResolvedValueOnce("ok");
+
+    await expect(
+      withRetry(operation, { policy: noJitter, clock }),
+    ).resolves.toBe("ok");
+    expect(operation).toHaveBeenCalledTimes(2);
+    expect(clock.sleeps).toEqual([500]);
+  });
+
+  it("should stop after max attempts and rethrow the last error", async () => {
+    const clock = createTestClock();
+    const error = new NetworkError(url, new Error("reset"));
+    const operation = vi.fn().mockRejectedValue(error);
+
+    await expect(
+      withRetry(operation, {
+        policy: resolveRetryPolicy({ maxAttempts: 3, jitter: "none" }),
+        clock,
+      }),
+    ).rejects.toBe(error);
+    expect(operation).toHaveBeenCalledTimes(3);
+    expect(clock.sleeps).toEqual([500, 1000]);
+  });
+
+  it("should not retry non-retryable errors", async () => {
+    const clock = createTestClock();
+    const operation = vi.fn().mockRejectedValue(new HttpError(url, 404));
+
+    await expect(
+      withRetry(operation, { policy: noJitter, clock }),
+    ).rejects.toThrow("HTTP error! status: 404");
+    expect(operation).toHaveBeenCalledTimes(1);
+    expect(clock.sleeps).toEqual([]);
+  });
+
+  it("should honor Retry-After", async () => {
+    const clock = createTestClock();
+    const operation = vi
+      .fn()
+      .mockRejectedValueOnce(new HttpError(url, 429, "2"))
+      .mockResolvedValueOnce("ok");
+
+    await withRetry(operation, { policy: noJitter, clock });
+    expect(clock.sleeps).toEqual([2000]);
+  });
+
+  it("should give up when Retry-After exceeds the max delay", async () => {
+    const clock = createTestClock();
+    const operation = vi.fn().mockRejectedValue(new HttpError(url, 503, "60"));
+
+    await expect(
+      withRetry(operation, { policy: noJitter, clock }),
+    ).rejects.toThrow("HTTP error! status: 503");
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it("should use jittered delays from the injected random source", async () => {
+    const clock = createTestClock();
+    const operation = vi
+      .fn()
+      .mockRejectedValueOnce(new HttpError(url, 502))
+      .mockRejectedValueOnce(new HttpError(url, 502))
+      .mockResolvedValueOnce("ok");
+
+    await withRetry(operation, {
+      policy: DEFAULT_RETRY_POLICY,
+      clock,
+      random: () => 0.25,
+    });
+    expect(clock.sleeps).toEqual([125, 250]);
+  });
+});
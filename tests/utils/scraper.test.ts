@@ -3,7 +3,17 @@ import {
   fetchHtml,
   parseStatusText,
   parseWorldStatus,
+  parseWorldStatusWithDiagnostics,
 } from "../../src/utils/scraper.js";
+import {
+  HttpError,
+  NetworkError,
+  ParseError,
+  RequestAbortedError,
+  RequestTimeoutError,
+  SchemaDriftError,
+} from "../../src/errors/index.js";
+import { readFixture } from "../test-helpers.js";
 
 // Helper functions to generate realistic Lodestone HTML structure
 function createWorldListItem(
@@ -104,6 +114,7 @@ describe("parseStatusText", () => {
     expect(result).toEqual({
       status: "unknown",
       population: "standard",
+      category: "standard",
       newCharacterCreation: true,
     });
   });
@@ -113,6 +124,7 @@ describe("parseStatusText", () => {
     expect(result).toEqual({
       status: "unknown",
       population: "preferred",
+      category: "preferred",
       newCharacterCreation: true,
     });
   });
@@ -122,6 +134,7 @@ describe("parseStatusText", () => {
     expect(result).toEqual({
       status: "unknown",
       population: "preferred+",
+      category: "preferred+",
       newCharacterCreation: true,
     });
   });
@@ -131,15 +144,27 @@ describe("parseStatusText", () => {
     expect(result).toEqual({
       status: "unknown",
       population: "congested",
+      category: "congested",
       newCharacterCreation: false,
     });
   });
 
+  it("should parse the new world category", () => {
+    const result = parseStatusText("New");
+    expect(result).toEqual({
+      status: "unknown",
+      population: "unknown",
+      category: "new",
+      newCharacterCreation: true,
+    });
+  });
+
   it("should handle maintenance status", () => {
     const result = parseStatusText("Maintenance");
     expect(result).toEqual({
       status: "maintenance",
       population: "unknown",
+      category: "unknown",
       newCharacterCreation: true,
     });
   });
@@ -155,6 +180,7 @@ describe("parseStatusText", () => {
     expect(result).toEqual({
       status: "unknown",
       population: "unknown",
+      category: "unknown",
       newCharacterCreation: true,
     });
   });
@@ -164,6 +190,7 @@ describe("parseStatusText", () => {
     expect(result).toEqual({
       status: "unknown",
       population: "unknown",
+      category: "unknown",
       newCharacterCreation: true,
     });
   });
@@ -173,6 +200,7 @@ describe("parseStatusText", () => {
     expect(result).toEqual({
       status: "unknown",
       population: "unknown",
+      category: "unknown",
       newCharacterCreation: true,
     });
   });
@@ -190,6 +218,51 @@ describe("parseStatusText", () => {
     expect(result.newCharacterCreation).toBe(true);
   });
 
+  it("should parse online status", () => {
+    const result = parseStatusText("Online Congested");
+    expect(result.status).toBe("online");
+    expect(result.population).toBe("congested");
+  });
+
+  it("should parse localized labels", () => {
+    expect(parseStatusText("オンライン 超優遇", "jp")).toMatchObject({
+      status: "online",
+      population: "preferred+",
+      category: "preferred+",
+    });
+    expect(parseStatusText("一部メンテナンス中 混雑", "jp")).toMatchObject({
+      status: "partial-maintenance",
+      population: "congested",
+      newCharacterCreation: false,
+    });
+    expect(parseStatusText("Wartungsarbeiten Bevorzugt", "de")).toMatchObject({
+      status: "maintenance",
+      population: "preferred",
+    });
+    expect(parseStatusText("Online Neu", "de")).toMatchObject({
+      status: "online",
+      category: "new",
+    });
+    expect(parseStatusText("En ligne Standard", "fr")).toMatchObject({
+      status: "online",
+      population: "standard",
+    });
+    expect(
+      parseStatusText("Maintenance partielle Nouveau", "fr"),
+    ).toMatchObject({ status: "partial-maintenance", category: "new" });
+  });
+
+  it("should fall back to English labels on localized sites", () => {
+    expect(parseStatusText("Online Congested", "jp")).toMatchObject({
+      status: "online",
+      population: "congested",
+    });
+  });
+
+  it("should not read localized labels on English sites", () => {
+    expect(parseStatusText("オンライン 混雑").population).toBe("unknown");
+  });
+
   it("should return unknown population for unrecognized population text", () => {
     const result = parseStatusText("SomeUnknownPopulationStatus");
     expect(result.status).toBe("unknown");
@@ -214,8 +287,9 @@ describe("parseWorldStatus", () => {
     const adamantoise = aether?.worlds.find((w) => w.name === "Adamantoise");
     expect(adamantoise).toEqual({
       name: "Adamantoise",
-      status: "unknown",
+      status: "online",
       population: "congested",
+      category: "congested",
       newCharacterCreation: false,
     });
 
@@ -253,6 +327,308 @@ describe("parseWorldStatus", () => {
   });
 });
 
+describe("parseWorldStatus - Lodestone page fixtures", () => {
+  it("should read status, category and creation flag from the page", () => {
+    const result = parseWorldStatus(readFixture("worldstatus.html"));
+
+    expect(result.map((dc) => [dc.name, dc.region])).toEqual([
+      ["Aether", "na"],
+      ["Crystal", "na"],
+      ["Dynamis", "na"],
+      ["Chaos", "eu"],
+      ["Light", "eu"],
+      ["Materia", "oc"],
+      ["Elemental", "jp"],
+    ]);
+    expect(result[0].worlds).toEqual([
+      {
+        name: "Adamantoise",
+        status: "online",
+        population: "preferred",
+        category: "preferred",
+        newCharacterCreation: true,
+      },
+      {
+        name: "Cactuar",
+        status: "online",
+        population: "congested",
+        category: "congested",
+        newCharacterCreation: false,
+      },
+      {
+        name: "Faerie",
+        status: "online",
+        population: "standard",
+        category: "standard",
+        newCharacterCreation: true,
+      },
+      {
+        name: "Gilgamesh",
+        status: "online",
+        population: "congested",
+        category: "congested",
+        newCharacterCreation: false,
+      },
+      // Creation can be closed on worlds that aren't congested
+      {
+        name: "Jenova",
+        status: "online",
+        population: "standard",
+        category: "standard",
+        newCharacterCreation: false,
+      },
+    ]);
+    expect(result[1].worlds[1].population).toBe("preferred+");
+  });
+
+  it("should read the New world category", () => {
+    const result = parseWorldStatus(readFixture("worldstatus.html"));
+
+    const dynamis = result.find((dc) => dc.name === "Dynamis");
+    expect(dynamis?.worlds).toEqual([
+      {
+        name: "Cuchulainn",
+        status: "online",
+        population: "unknown",
+        category: "new",
+        newCharacterCreation: true,
+      },
+      {
+        name: "Golem",
+        status: "online",
+        population: "standard",
+        category: "standard",
+        newCharacterCreation: true,
+      },
+    ]);
+  });
+
+  it("should read maintenance and partial maintenance icons", () => {
+    const result = parseWorldStatus(
+      readFixture("worldstatus-maintenance.html"),
+    );
+
+    const aether = result.find((dc) => dc.name === "Aether");
+    expect(aether?.worlds.map((w) => w.status)).toEqual([
+      "maintenance",
+      "maintenance",
+      "maintenance",
+    ]);
+    expect(aether?.worlds.every((w) => !w.newCharacterCreation)).toBe(true);
+
+    const chaos = result.find((dc) => dc.name === "Chaos");
+    expect(chaos?.worlds).toEqual([
+      {
+        name: "Cerberus",
+        status: "partial-maintenance",
+        population: "standard",
+        category: "standard",
+        newCharacterCreation: true,
+      },
+      {
+        name: "Louisoix",
+        status: "partial-maintenance",
+        population: "congested",
+        category: "congested",
+        newCharacterCreation: false,
+      },
+      {
+        name: "Moogle",
+        status: "online",
+        population: "standard",
+        category: "standard",
+        newCharacterCreation: true,
+      },
+    ]);
+  });
+
+  it("should read the Japanese site with the jp locale", () => {
+    const html = readFixture("worldstatus-jp.html");
+
+    const { dataCenters, diagnostics } = parseWorldStatusWithDiagnostics(html, {
+      locale: "jp",
+      strict: true,
+    });
+
+    expect(diagnostics.unknownStatuses).toEqual([]);
+    expect(dataCenters).toEqual(
+      parseWorldStatus(readFixture("worldstatus-maintenance.html")),
+    );
+  });
+
+  it("should report localized labels parsed with the wrong locale", () => {
+    const { diagnostics } = parseWorldStatusWithDiagnostics(
+      readFixture("worldstatus-jp.html"),
+    );
+
+    expect(diagnostics.unknownStatuses).toContainEqual({
+      world: "Adamantoise",
+      dataCenter: "Aether",
+      text: "メンテナンス中 優遇",
+    });
+  });
+
+  it("should parse the fixtures cleanly in strict mode", () => {
+    for (const name of ["worldstatus.html", "worldstatus-maintenance.html"]) {
+      const { diagnostics } = parseWorldStatusWithDiagnostics(
+        readFixture(name),
+        { strict: true },
+      );
+      // Only the category tabs and the legend, which aren't data centers
+      expect(
+        new Set(diagnostics.rejectedItems.map(({ heading }) => heading)),
+      ).toEqual(new Set(["Server Status", "Legend"]));
+      expect(diagnostics.unknownStatuses).toEqual([]);
+    }
+  });
+
+  it("should fall back to the tooltip when the status icon class is unfamiliar", () => {
+    const html = readFixture("worldstatus.html").replace(
+      'class="world-ic__1 js__tooltip"',
+      'class="world-ic__9 js__tooltip"',
+    );
+
+    const [aether] = parseWorldStatus(html);
+
+    expect(aether.worlds[0].status).toBe("online");
+  });
+
+  it("should report worlds whose status icon can't be read", () => {
+    const html = readFixture("worldstatus.html").replace(
+      /class="world-ic__1 js__tooltip"\s+data-tooltip="\s+Online"/,
+      'class="world-ic__9 js__tooltip" data-tooltip="Closed"',
+    );
+
+    const { dataCenters, diagnostics } = parseWorldStatusWithDiagnostics(html);
+
+    expect(dataCenters[0].worlds[0].status).toBe("unknown");
+    expect(diagnostics.unknownStatuses).toEqual([
+      { world: "Adamantoise", dataCenter: "Aether", text: "Closed Preferred" },
+    ]);
+  });
+});
+
+describe("parseWorldStatusWithDiagnostics", () => {
+  const driftingHtml = `
+    <html>
+      <body>
+        <h2>Navigation</h2>
+        <ul><li>Home</li></ul>
+        <h2>Aether</h2>
+        <ul>
+          <li>Adamantoise Standard</li>
+          <li>Cactuar Very Busy</li>
+        </ul>
+        <h2>Nocturne</h2>
+        <ul>
+          <li>Bismarck Preferred</li>
+        </ul>
+      </body>
+    </html>
+  `;
+
+  it("should return the same data as parseWorldStatus", () => {
+    const { dataCenters } = parseWorldStatusWithDiagnostics(mockHtml);
+    expect(dataCenters).toEqual(parseWorldStatus(mockHtml));
+  });
+
+  it("should report headings, matched lists and rejected items", () => {
+    const { diagnostics } = parseWorldStatusWithDiagnostics(driftingHtml);
+
+    expect(diagnostics.headings).toEqual(["Navigation", "Aether", "Nocturne"]);
+    expect(diagnostics.matchedLists).toEqual([
+      { heading: "Aether", items: 2, worlds: 1 },
+      { heading: "Nocturne", items: 1, worlds: 1 },
+    ]);
+    expect(diagnostics.rejectedItems).toEqual([
+      { heading: "Navigation", text: "Home" },
+      { heading: "Aether", text: "Cactuar Very Busy" },
+    ]);
+  });
+
+  it("should report data centers whose region is unknown", () => {
+    const { dataCenters, diagnostics } =
+      parseWorldStatusWithDiagnostics(driftingHtml);
+
+    expect(dataCenters.find((dc) => dc.name === "Nocturne")?.region).toBe(
+      "unknown",
+    );
+    expect(diagnostics.unknownRegions).toEqual(["Nocturne"]);
+  });
+
+  it("should have nothing to report for well-formed markup", () => {
+    const { diagnostics } = parseWorldStatusWithDiagnostics(mockHtml);
+
+    expect(diagnostics.rejectedItems).toEqual([]);
+    expect(diagnostics.unknownStatuses).toEqual([]);
+    expect(diagnostics.unknownRegions).toEqual([]);
+  });
+
+  describe("strict mode", () => {
+    it("should throw SchemaDriftError with the reasons and diagnostics", () => {
+      try {
+        parseWorldStatus(driftingHtml, { strict: true });
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(SchemaDriftError);
+        expect(error).toBeInstanceOf(ParseError);
+        const drift = error as SchemaDriftError;
+        expect(drift.reasons).toEqual([
+          "1 list items did not look like worlds",
+          "no known region for Nocturne",
+        ]);
+        expect(drift.diagnostics.headings).toHaveLength(3);
+        expect(drift.message).toBe(
+          "World status markup appears to have changed: 1 list items did not look like worlds; no known region for Nocturne",
+        );
+      }
+    });
+
+    it("should throw when a known data center's list has no worlds", () => {
+      const html = `
+        <h2>Aether</h2>
+        <ul><li>Adamantoise Standard</li></ul>
+        <h2>Crystal</h2>
+        <ul><li><span class="world-name">Balmung</span></li></ul>
+      `;
+
+      const { dataCenters, diagnostics } =
+        parseWorldStatusWithDiagnostics(html);
+      expect(dataCenters.map((dc) => dc.name)).toEqual(["Aether"]);
+      expect(diagnostics.rejectedItems).toEqual([
+        { heading: "Crystal", text: "Balmung" },
+      ]);
+
+      expect(() => parseWorldStatus(html, { strict: true })).toThrow(
+        "1 list items did not look like worlds; no worlds found for Crystal",
+      );
+    });
+
+    it("should not count lists under other headings as drift", () => {
+      const html = `
+        <h3>Server Status</h3>
+        <ul class="world-category"><li>North American Data Center</li></ul>
+        <h2>Aether</h2>
+        <ul><li>Adamantoise Standard</li></ul>
+      `;
+
+      expect(parseWorldStatus(html, { strict: true })).toHaveLength(1);
+    });
+
+    it("should throw when no data centers are found", () => {
+      expect(() =>
+        parseWorldStatus("<html><h2>Maintenance</h2></html>", {
+          strict: true,
+        }),
+      ).toThrow("no data centers found among 1 headings");
+    });
+
+    it("should accept well-formed markup", () => {
+      expect(parseWorldStatus(mockHtml, { strict: true })).toHaveLength(2);
+    });
+  });
+});
+
 describe("inferRegion", () => {
   // We need to import the internal function for testing
   // Since it's not exported, we'll test it through parseWorldStatus
@@ -267,7 +643,7 @@ describe("inferRegion", () => {
   });
 
   it("should infer EU region for known EU data centers", () => {
-    const testDataCenters = ["Chaos", "Light"];
+    const testDataCenters = ["Chaos", "Light", "Shadow"];
 
     testDataCenters.forEach((dcName) => {
       const html = createTestHtml(dcName);
@@ -315,7 +691,9 @@ describe("fetchHtml", () => {
 
     const result = await fetchHtml("https://example.com");
     expect(result).toBe("<html>test</html>");
-    expect(fetch).toHaveBeenCalledWith("https://example.com");
+    expect(fetch).toHaveBeenCalledWith("https://example.com", {
+      signal: expect.any(AbortSignal),
+    });
   });
 
   it("should throw error for failed requests", async () => {
@@ -336,4 +714,105 @@ describe("fetchHtml", () => {
       "Network error",
     );
   });
+
+  it("should wrap transport failures in NetworkError", async () => {
+    const cause = new Error("socket hang up");
+    global.fetch = vi.fn().mockRejectedValue(cause);
+
+    const error = await fetchHtml("https://example.com").catch(
+      (e: unknown) => e,
+    );
+    expect(error).toBeInstanceOf(NetworkError);
+    expect((error as NetworkError).cause).toBe(cause);
+  });
+
+  it("should keep the status and Retry-After on HTTP errors", async () => {
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: false,
+      status: 429,
+      headers: new Headers({ "Retry-After": "120" }),
+    });
+
+    const error = await fetchHtml("https://example.com").catch(
+      (e: unknown) => e,
+    );
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error).toMatchObject({
+      status: 429,
+      retryAfter: "120",
+      url: "https://example.com",
+    });
+  });
+
+  it("should fetch through a custom transport when provided", async () => {
+    global.fetch = vi.fn();
+    const transport = {
+      fetch: vi.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        text: () => Promise.resolve("<html>custom</html>"),
+      }),
+    };
+
+    const result = await fetchHtml("https://example.com", { transport });
+    expect(result).toBe("<html>custom</html>");
+    expect(transport.fetch).toHaveBeenCalledWith("https://example.com", {
+      signal: expect.any(AbortSignal),
+    });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("should reject with RequestTimeoutError when the timeout elapses", async () => {
+    const transport = { fetch: () => new Promise<never>(() => {}) };
+
+    const error = await fetchHtml("https://example.com", {
+      transport,
+      timeoutMs: 10,
+    }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(RequestTimeoutError);
+    expect(error).toMatchObject({ url: "https://example.com", timeoutMs: 10 });
+  });
+
+  it("should abort the transport signal when the timeout elapses", async () => {
+    let transportSignal: AbortSignal | undefined;
+    const transport = {
+      fetch: (_url: string, options?: { signal?: AbortSignal }) => {
+        transportSignal = options?.signal;
+        return new Promise<never>(() => {});
+      },
+    };
+
+    await expect(
+      fetchHtml("https://example.com", { transport, timeoutMs: 10 }),
+    ).rejects.toThrow(RequestTimeoutError);
+    expect(transportSignal?.aborted).toBe(true);
+  });
+
+  it("should reject with RequestAbortedError when the caller aborts", async () => {
+    const controller = new AbortController();
+    const transport = { fetch: () => new Promise<never>(() => {}) };
+
+    const pending = fetchHtml("https://example.com", {
+      transport,
+      signal: controller.signal,
+    });
+    controller.abort("user cancelled");
+
+    const error = await pending.catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(RequestAbortedError);
+    expect((error as RequestAbortedError).cause).toBe("user cancelled");
+  });
+
+  it("should not call the transport when the signal is already aborted", async () => {
+    const transport = { fetch: vi.fn() };
+
+    await expect(
+      fetchHtml("https://example.com", {
+        transport,
+        signal: AbortSignal.abort(),
+      }),
+    ).rejects.toThrow(RequestAbortedError);
+    expect(transport.fetch).not.toHaveBeenCalled();
+  });
 });
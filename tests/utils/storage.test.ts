@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  CACHE_ENTRY_VERSION,
+  FileCacheStorage,
+  MemoryCacheStorage,
+  deserializeWorldStatusEntry,
+  serializeWorldStatusEntry,
+} from "../../src/utils/storage.js";
+import { createTestDataCenter } from "../test-helpers.js";
+
+const dataCenters = [
+  createTestDataCenter("Aether", "na", [
+    {
+      name: "Adamantoise",
+      status: "online",
+      population: "standard",
+      newCharacterCreation: true,
+    },
+    {
+      name: "Cactuar",
+      status: "maintenance",
+      population: "congested",
+      newCharacterCreation: false,
+    },
+  ]),
+  createTestDataCenter("Light", "eu"),
+];
+
+describe("world status entry serialization", () => {
+  it("should round-trip data centers and the stored timestamp", () => {
+    const json = serializeWorldStatusEntry({
+      data: dataCenters,
+      storedAt: 1234,
+    });
+    const entry = deserializeWorldStatusEntry(json);
+
+    expect(entry).toEqual({ data: dataCenters, storedAt: 1234 });
+  });
+
+  it("should record the format version", () => {
+    const json = serializeWorldStatusEntry({ data: [], storedAt: 0 });
+    expect(JSON.parse(json).version).toBe(CACHE_ENTRY_VERSION);
+  });
+
+  it("should ignore entries from another format version", () => {
+    const json = JSON.stringify({ version: 999, storedAt: 0, data: [] });
+    expect(deserializeWorldStatusEntry(json)).toBeNull();
+  });
+
+  it("should ignore malformed JSON", () => {
+    expect(deserializeWorldStatusEntry("{not json")).toBeNull();
+  });
+
+  it("should reject invalid world names and enum values", () => {
+    const badName = serializeWorldStatusEntry({
+      data: dataCenters,
+      storedAt: 0,
+    }).replace("Adamantoise", "Adam@ntoise");
+    const badStatus = serializeWorldStatusEntry({
+      data: dataCenters,
+      storedAt: 0,
+    }).replace('"online"', '"sleeping"');
+
+    expect(deserializeWorldStatusEntry(badName)).toBeNull();
+    expect(deserializeWorldStatusEntry(badStatus)).toBeNull();
+  });
+
+  it("should fall back to the population for entries without a category", () => {
+    const json = JSON.stringify({
+      version: CACHE_ENTRY_VERSION,
+      storedAt: 0,
+      data: [
+        {
+          name: "Aether",
+          region: "na",
+          worlds: [
+            {
+              name: "Adamantoise",
+              status: "online",
+              population: "preferred",
+              newCharacterCreation: true,
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(deserializeWorldStatusEntry(json)?.data[0].worlds[0]).toMatchObject({
+      population: "preferred",
+      category: "preferred",
+    });
+  });
+
+  it("should reject unknown categories", () => {
+    const json = serializeWorldStatusEntry({
+      data: dataCenters,
+      storedAt: 0,
+    }).replace('"category":"standard"', '"category":"legacy"');
+
+    expect(deserializeWorldStatusEntry(json)).toBeNull();
+  });
+
+  it("should drop unknown fields", () => {
+    const json = JSON.stringify({
+      version: CACHE_ENTRY_VERSION,
+      storedAt: 0,
+      data: [{ name: "Light", region: "eu", worlds: [], extra: true }],
+    });
+
+    expect(deserializeWorldStatusEntry(json)?.data[0]).toEqual({
+      name: "Light",
+      region: "eu",
+      worlds: [],
+    });
+  });
+});
+
+describe("MemoryCacheStorage", () => {
+  it("should store, read and delete values", async () => {
+    const storage = new MemoryCacheStorage();
+
+    expect(await storage.get("key")).toBeNull();
+    await storage.set("key", "value");
+    expect(await storage.get("key")).toBe("value");
+    await storage.delete("key");
+    expect(await storage.get("key")).toBeNull();
+  });
+});
+
+describe("FileCacheStorage", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "lodestone-world-status-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("should return null for keys that were never written", async () => {
+    const storage = new FileCacheStorage(directory);
+    expect(await storage.get("missing")).toBeNull();
+  });
+
+  it("should write each key to a JSON file", async () => {
+    const storage = new FileCacheStorage(join(directory, "nested"));
+    const json = serializeWorldStatusEntry({ data: dataCenters, storedAt: 1 });
+
+    await storage.set("world-status", json);
+
+    expect(await storage.get("world-status")).toBe(json);
+    expect(
+      await readFile(join(directory, "nested", "world-status.json"), "utf8"),
+    ).toBe(json);
+  });
+
+  it("should sanitize keys into safe file names", async () => {
+    const storage = new FileCacheStorage(directory);
+
+    await storage.set("../lodestone:status", "{}");
+
+    expect(
+      await readFile(join(directory, "___lodestone_status.json"), "utf8"),
+    ).toBe("{}");
+  });
+
+  it("should delete stored keys and tolerate missing ones", async () => {
+    const storage = new FileCacheStorage(directory);
+
+    await storage.set("key", "{}");
+    await storage.delete("key");
+    await storage.delete("key");
+
+    expect(await storage.get("key")).toBeNull();
+  });
+});
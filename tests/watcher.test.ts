@@ -0,0 +1,407 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { LodestoneWorldStatus, WorldStatusWatcher } from "../src/index.js";
+import type { DataCenter, WorldStatusChange } from "../src/index.js";
+import {
+  createTestResponse,
+  createTestSnapshot,
+  createTestTransport,
+  createWorldStatusHtml,
+} from "./test-helpers.js";
+
+describe("WorldStatusWatcher", () => {
+  it("should treat the first snapshot as the baseline", () => {
+    const watcher = new WorldStatusWatcher({ getAllWorlds: vi.fn() });
+    const onChange = vi.fn();
+    watcher.on("change", onChange);
+
+    expect(watcher.update(createTestSnapshot("online"))).toEqual([]);
+    expect(onChange).not.toHaveBeenCalled();
+    expect(watcher.getSnapshot()).toEqual(createTestSnapshot("online"));
+  });
+
+  it("should emit each change as a change event and a typed event", () => {
+    const watcher = new WorldStatusWatcher({ getAllWorlds: vi.fn() });
+    const onChange = vi.fn();
+    const onStatus = vi.fn();
+    const onPopulation = vi.fn();
+    watcher.on("change", onChange);
+    watcher.on("status", onStatus);
+    watcher.on("population", onPopulation);
+
+    watcher.update(createTestSnapshot("online"));
+    watcher.update(createTestSnapshot("maintenance"));
+
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onStatus).toHaveBeenCalledWith(
+      expect.objectContaining({
+        world: "Adamantoise",
+        before: "online",
+        after: "maintenance",
+      }),
+    );
+    expect(onPopulation).not.toHaveBeenCalled();
+  });
+
+  it("should emit the batch of changes with the new snapshot", () => {
+    const watcher = new WorldStatusWatcher({ getAllWorlds: vi.fn() });
+    const onChanges = vi.fn();
+    watcher.on("changes", onChanges);
+
+    watcher.update(createTestSnapshot("online"));
+    const next = createTestSnapshot("online", "congested");
+    watcher.update(next);
+
+    expect(onChanges).toHaveBeenCalledTimes(1);
+    const [changes, current] = onChanges.mock.calls[0] as [
+      WorldStatusChange[],
+      DataCenter[],
+    ];
+    expect(changes.map((c) => c.type)).toEqual([
+      "population",
+      "newCharacterCreation",
+    ]);
+    expect(current).toBe(next);
+  });
+
+  it("should not emit changes for an unchanged snapshot", () => {
+    const watcher = new WorldStatusWatcher({ getAllWorlds: vi.fn() });
+    const onChanges = vi.fn();
+    watcher.on("changes", onChanges);
+
+    const cached = createTestSnapshot("online");
+    watcher.update(cached);
+    watcher.update(cached);
+    watcher.update(createTestSnapshot("online"));
+
+    expect(onChanges).not.toHaveBeenCalled();
+  });
+
+  it("should fetch snapshots from its source on check", async () => {
+    const getAllWorlds = vi
+      .fn()
+      .mockResolvedValueOnce(createTestSnapshot("online"))
+      .mockResolvedValueOnce(createTestSnapshot("maintenance"));
+    const watcher = new WorldStatusWatcher({ getAllWorlds });
+    const signal = new AbortController().signal;
+
+    expect(await watcher.check()).toEqual([]);
+    const changes = await watcher.check({ signal });
+
+    expect(changes).toHaveLength(1);
+    expect(getAllWorlds).toHaveBeenLastCalledWith({ signal });
+  });
+
+  it("should reject check when the source fails", async () => {
+    const watcher = new WorldStatusWatcher({
+      getAllWorlds: vi.fn().mockRejectedValue(new Error("Lodestone down")),
+    });
+
+    await expect(watcher.check()).rejects.toThrow("Lodestone down");
+    expect(watcher.getSnapshot()).toBeNull();
+  });
+
+  it("should start a new baseline after reset", () => {
+    const watcher = new WorldStatusWatcher({ getAllWorlds: vi.fn() });
+
+    watcher.update(createTestSnapshot("online"));
+    watcher.reset();
+
+    expect(watcher.update(createTestSnapshot("maintenance"))).toEqual([]);
+  });
+});
+
+describe("WorldStatusWatcher - polling", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should poll immediately and then on every interval", async () => {
+    const getAllWorlds = vi
+      .fn()
+      .mockResolvedValue(createTestSnapshot("online"));
+    const watcher = new WorldStatusWatcher(
+      { getAllWorlds },
+      { intervalMs: 1000 },
+    );
+    const onSnapshot = vi.fn();
+    watcher.on("snapshot", onSnapshot);
+
+    watcher.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(onSnapshot).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(onSnapshot).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(onSnapshot).toHaveBeenCalledTimes(4);
+
+    await watcher.stop();
+  });
+
+  it("should emit changes between polled snapshots", async () => {
+    const getAllWorlds = vi
+      .fn()
+      .mockResolvedValueOnce(createTestSnapshot("online"))
+      .mockResolvedValue(createTestSnapshot("maintenance"));
+    const watcher = new WorldStatusWatcher(
+      { getAllWorlds },
+      { intervalMs: 1000 },
+    );
+    const onStatus = vi.fn();
+    watcher.on("status", onStatus);
+
+    watcher.start();
+    await vi.advanceTimersByTimeAsync(1000);
+    await watcher.stop();
+
+    expect(onStatus).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not poll before the cache expires", async () => {
+    const getAllWorlds = vi
+      .fn()
+      .mockResolvedValue(createTestSnapshot("online"));
+    const getCacheStats = vi.fn().mockReturnValue({
+      hasData: true,
+      isValid: true,
+      ageMs: 0,
+      timeUntilExpirationMs: 5000,
+      expirationMs: 5000,
+      servedStale: false,
+    });
+    const watcher = new WorldStatusWatcher(
+      { getAllWorlds, getCacheStats },
+      { intervalMs: 1000 },
+    );
+
+    watcher.start();
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(getAllWorlds).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(getAllWorlds).toHaveBeenCalledTimes(2);
+
+    await watcher.stop();
+  });
+
+  it("should default the interval to the cache expiration", async () => {
+    const transport = createTestTransport(() =>
+      createTestResponse(createWorldStatusHtml()),
+    );
+    const client = new LodestoneWorldStatus({
+      cacheExpirationMs: 3000,
+      transport,
+    });
+
+    const watcher = client.watch();
+    await vi.advanceTimersByTimeAsync(2999);
+    expect(transport.calls).toHaveLength(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(transport.calls).toHaveLength(2);
+
+    await watcher.stop();
+  });
+
+  it("should back off exponentially after errors and recover", async () => {
+    const getAllWorlds = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("down"))
+      .mockRejectedValueOnce(new Error("down"))
+      .mockResolvedValue(createTestSnapshot("online"));
+    const watcher = new WorldStatusWatcher(
+      { getAllWorlds },
+      { intervalMs: 1000, maxBackoffMs: 3000 },
+    );
+    const onError = vi.fn();
+    watcher.on("error", onError);
+
+    watcher.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(onError).toHaveBeenCalledTimes(1);
+
+    // First failure waits 2x the interval
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(getAllWorlds).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(getAllWorlds).toHaveBeenCalledTimes(2);
+
+    // Second failure is capped by maxBackoffMs
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(getAllWorlds).toHaveBeenCalledTimes(3);
+
+    // Success returns to the normal interval
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(getAllWorlds).toHaveBeenCalledTimes(4);
+
+    await watcher.stop();
+  });
+
+  it("should keep polling when nobody listens for errors", async () => {
+    const getAllWorlds = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("down"))
+      .mockResolvedValue(createTestSnapshot("online"));
+    const watcher = new WorldStatusWatcher(
+      { getAllWorlds },
+      { intervalMs: 1000 },
+    );
+
+    watcher.start();
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(getAllWorlds).toHaveBeenCalledTimes(2);
+    await watcher.stop();
+  });
+
+  it("should cancel the in-flight fetch and leave no timers on stop", async () => {
+    let fetchSignal: AbortSignal | undefined;
+    const getAllWorlds = vi.fn((options?: { signal?: AbortSignal }) => {
+      fetchSignal = options?.signal;
+      return new Promise<DataCenter[]>((_, reject) =>
+        options?.signal?.addEventListener("abort", () =>
+          reject(new Error("aborted")),
+        ),
+      );
+    });
+    const watcher = new WorldStatusWatcher(
+      { getAllWorlds },
+      { intervalMs: 1000 },
+    );
+    const onStop = vi.fn();
+    watcher.on("stop", onStop);
+
+    watcher.start();
+    await watcher.stop();
+
+    expect(fetchSignal?.aborted).toBe(true);
+    expect(watcher.isRunning()).toBe(false);
+    expect(onStop).toHaveBeenCalledTimes(1);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it("should stop when the stop signal aborts", async () => {
+    const controller = new AbortController();
+    const getAllWorlds = vi
+      .fn()
+      .mockResolvedValue(createTestSnapshot("online"));
+    const watcher = new WorldStatusWatcher(
+      { getAllWorlds },
+      { intervalMs: 1000, signal: controller.signal },
+    );
+
+    watcher.start();
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(watcher.isRunning()).toBe(false);
+    expect(getAllWorlds).toHaveBeenCalledTimes(1);
+  });
+
+  it("should ignore repeated start and stop calls", async () => {
+    const getAllWorlds = vi
+      .fn()
+      .mockResolvedValue(createTestSnapshot("online"));
+    const watcher = new WorldStatusWatcher(
+      { getAllWorlds },
+      { intervalMs: 1000 },
+    );
+
+    watcher.start();
+    watcher.start();
+    await vi.advanceTimersByTimeAsync(0);
+    await watcher.stop();
+    await watcher.stop();
+
+    expect(getAllWorlds).toHaveBeenCalledTimes(1);
+  });
+
+  it("should reject invalid intervals", () => {
+    expect(
+      () =>
+        new WorldStatusWatcher({ getAllWorlds: vi.fn() }, { intervalMs: 0 }),
+    ).toThrow("Watch interval must be a positive integer, got: 0");
+  });
+});
+
+describe("WorldStatusWatcher - async iteration", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should yield polled snapshots and stop when the loop exits", async () => {
+    const getAllWorlds = vi
+      .fn()
+      .mockResolvedValueOnce(createTestSnapshot("online"))
+      .mockResolvedValueOnce(createTestSnapshot("maintenance"));
+    const watcher = new WorldStatusWatcher(
+      { getAllWorlds },
+      { intervalMs: 1000 },
+    );
+
+    const statuses: string[] = [];
+    const iteration = (async () => {
+      for await (const dataCenters of watcher) {
+        statuses.push(dataCenters[0].worlds[0].status);
+        if (statuses.length === 2) {
+          break;
+        }
+      }
+    })();
+    await vi.advanceTimersByTimeAsync(1000);
+    await iteration;
+
+    expect(statuses).toEqual(["online", "maintenance"]);
+    expect(watcher.isRunning()).toBe(false);
+  });
+
+  it("should end iteration when the watcher is stopped", async () => {
+    const getAllWorlds = vi
+      .fn()
+      .mockResolvedValue(createTestSnapshot("online"));
+    const watcher = new WorldStatusWatcher(
+      { getAllWorlds },
+      { intervalMs: 1000 },
+    );
+    watcher.start();
+
+    const snapshots: (readonly DataCenter[])[] = [];
+    const iteration = (async () => {
+      for await (const dataCenters of watcher) {
+        snapshots.push(dataCenters);
+      }
+    })();
+    await vi.advanceTimersByTimeAsync(1000);
+    await watcher.stop();
+    await iteration;
+
+    expect(snapshots.length).toBeGreaterThan(0);
+  });
+
+  it("should leave a watcher it did not start running", async () => {
+    const getAllWorlds = vi
+      .fn()
+      .mockResolvedValue(createTestSnapshot("online"));
+    const watcher = new WorldStatusWatcher(
+      { getAllWorlds },
+      { intervalMs: 1000 },
+    );
+    watcher.start();
+
+    const iterator = watcher[Symbol.asyncIterator]();
+    await iterator.return?.();
+
+    expect(watcher.isRunning()).toBe(true);
+    await watcher.stop();
+  });
+});